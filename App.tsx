@@ -1,23 +1,64 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { unzipSync, strFromU8 } from 'fflate';
 import { Upload, FileType, Play, Loader2, FileText, MonitorPlay, CheckCircle2, ArrowRight, WifiOff, ShieldCheck } from 'lucide-react';
-import { parseTsxToLayout } from './services/layoutEngine';
 import { generatePDF, generatePPTX } from './services/generatorService';
-import { DocumentLayout, ExportFormat, ProgressState, ErrorInfo, ExportOptions, ProjectFile, ProjectContext } from './types';
+import { isCssModulePath } from './services/cssModules';
+import { parsePropsJson } from './services/componentProps';
+import { parseCaptureScript } from './services/captureScript';
+import { DatasetRow, parseDataset } from './services/mailMerge';
+import { ALL_EXPORTS, listComponentExports } from './services/componentExports';
+import { isStoriesFile } from './services/storybook';
+import { compileMarkdownDeck, isMarkdownPath } from './services/markdownDeck';
+import { isHtmlPath } from './services/htmlPage';
+import { isVendoredPath } from './services/packageResolver';
+import { toErrorInfo } from './services/errors';
+import { DEFAULT_RENDER_TIMEOUT_MS, renderInSandbox } from './services/renderSandbox';
+import { DEFAULT_READY_TIMEOUT_MS } from './services/readiness';
+import { DEFAULT_ADVANCE_MS } from './services/determinism';
+import { normalizeStageSize, STAGE_PRESETS } from './services/stageSize';
+import { DEFAULT_PAGE_SIZES } from './services/pageSizes';
+import { DocumentLayout, ExportFormat, ProgressState, ErrorInfo, ExportOptions, FitMode, ProjectFile, ProjectContext, StageSize } from './types';
 import { LayoutPreview } from './components/LayoutPreview';
 import { ProgressIndicator } from './components/ProgressIndicator';
 import { ErrorDisplay } from './components/ErrorDisplay';
 
+/** Readiness timeouts on offer; only those shorter than the render time limit can be picked */
+const READY_TIMEOUT_OPTIONS = [2000, 5000, 10000, 30000];
+
+/** Formats an instant for a datetime-local input, in local time with seconds */
+const toClockInput = (time: number) =>
+  new Date(time - new Date(time).getTimezoneOffset() * 60000).toISOString().slice(0, 19);
+
+const currentMinute = () => Math.floor(Date.now() / 60000) * 60000;
+
 function App() {
   const [tsxContent, setTsxContent] = useState<string>('');
   const [fileName, setFileName] = useState<string | null>(null);
   const [targetFormat, setTargetFormat] = useState<ExportFormat | null>(null);
   const [status, setStatus] = useState<'idle' | 'analyzing' | 'preview' | 'error'>('idle');
   const [layout, setLayout] = useState<DocumentLayout | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string>('');
+  const [errorInfo, setErrorInfo] = useState<ErrorInfo | null>(null);
   const [forceSinglePage, setForceSinglePage] = useState<boolean>(false);
+  const [captureStates, setCaptureStates] = useState<boolean>(false);
+  const [typeCheck, setTypeCheck] = useState<boolean>(false);
+  const [renderTimeoutMs, setRenderTimeoutMs] = useState<number>(DEFAULT_RENDER_TIMEOUT_MS);
+  const [readyTimeoutMs, setReadyTimeoutMs] = useState<number>(DEFAULT_READY_TIMEOUT_MS);
+  const [deterministic, setDeterministic] = useState<boolean>(false);
+  const [clockInput, setClockInput] = useState<string>(() => toClockInput(currentMinute()));
+  const [seed, setSeed] = useState<number>(1);
+  const [animationMode, setAnimationMode] = useState<'first-frame' | 'end' | 'time'>('first-frame');
+  const [animationTimeMs, setAnimationTimeMs] = useState<number>(1000);
+  const [propsText, setPropsText] = useState<string>('');
+  const [captureScriptText, setCaptureScriptText] = useState<string>('');
+  const [datasetRows, setDatasetRows] = useState<DatasetRow[] | null>(null);
+  const [datasetName, setDatasetName] = useState<string | null>(null);
+  const [exportChoice, setExportChoice] = useState<string>('');
   const [progress, setProgress] = useState<ProgressState | null>(null);
   const [quality, setQuality] = useState<ExportOptions['quality']>('standard');
+  const [pageSize, setPageSize] = useState<ExportOptions['pageSize'] | ''>('');
+  const [fitMode, setFitMode] = useState<FitMode>('stretch');
+  const [stagePreset, setStagePreset] = useState<string>(STAGE_PRESETS[0].id);
+  const [customStage, setCustomStage] = useState<StageSize>(STAGE_PRESETS[0].size);
   const [isDragging, setIsDragging] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [projectFiles, setProjectFiles] = useState<Record<string, ProjectFile> | null>(null);
@@ -31,18 +72,35 @@ function App() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
   const zipInputRef = useRef<HTMLInputElement>(null);
+  const datasetInputRef = useRef<HTMLInputElement>(null);
   const readyToRender = Boolean(fileName && targetFormat);
+  const entrySource = projectFiles ? (projectEntry ? projectFiles[projectEntry]?.content : '') : tsxContent;
+  const componentExportNames = useMemo(() => {
+    if (!entrySource) return [];
+    try {
+      const entryName = projectEntry || fileName || undefined;
+      if (isHtmlPath(entryName)) return [];
+      return isMarkdownPath(entryName)
+        ? compileMarkdownDeck(entrySource, entryName!).slides.map(({ name }) => name)
+        : listComponentExports(entrySource, entryName);
+    } catch {
+      return [];
+    }
+  }, [entrySource, projectEntry, fileName]);
+  const entryIsStories = isStoriesFile(projectEntry || fileName);
+  // A choice made for a previous file falls back to automatic detection
+  const selectedExport = componentExportNames.length > 1
+    && (exportChoice === ALL_EXPORTS || componentExportNames.includes(exportChoice))
+    ? exportChoice
+    : '';
+  const stageSize = stagePreset === 'custom'
+    ? normalizeStageSize(customStage)
+    : (STAGE_PRESETS.find(({ id }) => id === stagePreset) ?? STAGE_PRESETS[0]).size;
+  const stageLabel = `${stageSize.width}x${stageSize.height}`;
   const slideSummary = layout ? `${layout.pages.length} page${layout.pages.length > 1 ? 's' : ''}` : 'No pages yet';
 
   const resetProgress = () => setProgress(null);
 
-  const buildErrorInfo = (message: string): ErrorInfo => ({
-    code: 'render-failed',
-    message,
-    suggestion: 'Ensure the file exports a valid React component and avoid imports that require network access.',
-    canRetry: true,
-  });
-
   const normalizePath = (value: string) => {
     const cleaned = value.replace(/\\/g, '/').replace(/^\.\/+/, '').replace(/^\/+/, '');
     return cleaned ? `/${cleaned}` : '/';
@@ -61,13 +119,16 @@ function App() {
   };
 
   const handleIncomingFile = (file: File) => {
-    const allowed = ['.tsx', '.ts', '.jsx', '.js'];
+    const allowed = ['.tsx', '.ts', '.jsx', '.js', '.md', '.mdx', '.markdown', '.html', '.htm'];
     const lowerName = file.name.toLowerCase();
     const isAllowed = allowed.some((ext) => lowerName.endsWith(ext));
 
     if (!isAllowed) {
       setStatus('error');
-      setErrorMsg(`Unsupported file type. Please drop a TSX/TS/JSX/JS file — received ${file.name || 'unknown'}.`);
+      setErrorInfo(toErrorInfo(
+        `Unsupported file type. Please drop a TSX/TS/JSX/JS, Markdown/MDX or HTML file — received ${file.name || 'unknown'}.`,
+        'invalid-input'
+      ));
       return;
     }
 
@@ -101,7 +162,7 @@ function App() {
 
     const loadedFiles: Record<string, ProjectFile> = {};
     const assetMap: Record<string, ProjectFile> = {};
-    const textExtensions = new Set(['.ts', '.tsx', '.js', '.jsx', '.css', '.json']);
+    const textExtensions = new Set(['.ts', '.tsx', '.js', '.jsx', '.cjs', '.mjs', '.css', '.json', '.md', '.mdx', '.markdown', '.html', '.htm']);
     const assetExtensions = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.ico']);
 
     const readFile = (file: File) =>
@@ -134,25 +195,48 @@ function App() {
         }
       });
 
+    // Vendored packages only need their code, styles and assets; skip typings, maps and docs
+    const isSkippedVendorFile = (path: string) => {
+      if (!isVendoredPath(path)) return false;
+      const ext = `.${path.split('.').pop() || ''}`.toLowerCase();
+      return /\.d\.[cm]?ts$/i.test(path) || (!textExtensions.has(ext) && !assetExtensions.has(ext));
+    };
+
     try {
-      const readResults = await Promise.all(files.map(readFile));
+      const readResults = await Promise.all(
+        files
+          .filter((file: File) => !isSkippedVendorFile(normalizePath(file.webkitRelativePath || file.name)))
+          .map(readFile)
+      );
       readResults.forEach((entry) => {
         loadedFiles[entry.path] = entry;
       });
     } catch (err: any) {
       setStatus('error');
-      setErrorMsg(err.message || 'Failed to read project files.');
+      setErrorInfo(toErrorInfo(err, 'invalid-input', 'Failed to read project files.'));
       return;
     }
 
-    const cssFiles = Object.values(loadedFiles).filter((file) => file.kind === 'text' && file.path.endsWith('.css'));
+    // Package stylesheets are injected by the layout engine only when imported
+    const cssFiles = Object.values(loadedFiles).filter((file) =>
+      file.kind === 'text' && file.path.endsWith('.css') && !isVendoredPath(file.path)
+    );
+    // CSS Modules are scoped and injected by the layout engine when imported
     const cssText = cssFiles
+      .filter((file) => !isCssModulePath(file.path))
       .map((file) => rewriteCssUrls(file.content, file.path, assetMap))
       .join('\n');
 
     const entryCandidates = Object.keys(loadedFiles).filter((path) =>
-      /\.(tsx|jsx|ts|js)$/.test(path)
+      /\.(tsx|jsx|ts|js)$/.test(path) && !isVendoredPath(path)
     );
+    // HTML pages and Markdown decks can be entries too, after code files; project docs are skipped
+    entryCandidates.push(...Object.keys(loadedFiles)
+      .filter((path) => isHtmlPath(path) && !isVendoredPath(path))
+      .sort((a, b) => Number(/\/index\.html?$/i.test(b)) - Number(/\/index\.html?$/i.test(a))));
+    entryCandidates.push(...Object.keys(loadedFiles).filter((path) =>
+      isMarkdownPath(path) && !isVendoredPath(path) && !/\/(README|CHANGELOG|LICENSE)[^/]*$/i.test(path)
+    ));
 
     const preferredEntries = [
       '/index.tsx',
@@ -182,7 +266,7 @@ function App() {
 
     if (!resolvedEntry) {
       setStatus('error');
-      setErrorMsg('No .tsx/.jsx entry file found in the selected folder.');
+      setErrorInfo(toErrorInfo('No .tsx/.jsx entry file found in the selected folder.', 'invalid-input'));
     } else {
       setStatus('idle');
       setLayout(null);
@@ -190,11 +274,31 @@ function App() {
     }
   };
 
+  const handleDatasetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = parseDataset(await file.text(), file.name);
+      if (rows.length === 0) {
+        throw new Error(`${file.name} contains no records.`);
+      }
+      setDatasetRows(rows);
+      setDatasetName(file.name);
+      setLayout(null);
+      if (status !== 'analyzing') setStatus('idle');
+    } catch (err: any) {
+      setStatus('error');
+      setErrorInfo(toErrorInfo(err, 'invalid-input', 'Failed to read dataset.'));
+    }
+  };
+
   const handleZipUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const textExtensions = new Set(['.ts', '.tsx', '.js', '.jsx', '.css', '.json']);
+    const textExtensions = new Set(['.ts', '.tsx', '.js', '.jsx', '.cjs', '.mjs', '.css', '.json', '.md', '.mdx', '.markdown', '.html', '.htm']);
     const assetExtensions = new Set(['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.ico']);
 
     const arrayBufferToDataUrl = (buffer: ArrayBuffer, mime?: string) =>
@@ -211,7 +315,7 @@ function App() {
       zipFiles = unzipSync(new Uint8Array(buffer));
     } catch (err: any) {
       setStatus('error');
-      setErrorMsg(err?.message || 'Failed to read ZIP archive.');
+      setErrorInfo(toErrorInfo(err, 'invalid-input', 'Failed to read ZIP archive.'));
       return;
     }
 
@@ -224,6 +328,8 @@ function App() {
       const path = normalizePath(rawPath);
       const isText = textExtensions.has(ext);
       const isAsset = assetExtensions.has(ext);
+      // Vendored packages only need their code, styles and assets; skip typings, maps and docs
+      if (isVendoredPath(path) && (/\.d\.[cm]?ts$/i.test(path) || (!isText && !isAsset))) continue;
 
       if (isText) {
         const content = strFromU8(data);
@@ -236,14 +342,26 @@ function App() {
       }
     }
 
-    const cssFiles = Object.values(loadedFiles).filter((file) => file.kind === 'text' && file.path.endsWith('.css'));
+    // Package stylesheets are injected by the layout engine only when imported
+    const cssFiles = Object.values(loadedFiles).filter((file) =>
+      file.kind === 'text' && file.path.endsWith('.css') && !isVendoredPath(file.path)
+    );
+    // CSS Modules are scoped and injected by the layout engine when imported
     const cssText = cssFiles
+      .filter((file) => !isCssModulePath(file.path))
       .map((file) => rewriteCssUrls(file.content, file.path, assetMap))
       .join('\n');
 
     const entryCandidates = Object.keys(loadedFiles).filter((path) =>
-      /\.(tsx|jsx|ts|js)$/.test(path)
+      /\.(tsx|jsx|ts|js)$/.test(path) && !isVendoredPath(path)
     );
+    // HTML pages and Markdown decks can be entries too, after code files; project docs are skipped
+    entryCandidates.push(...Object.keys(loadedFiles)
+      .filter((path) => isHtmlPath(path) && !isVendoredPath(path))
+      .sort((a, b) => Number(/\/index\.html?$/i.test(b)) - Number(/\/index\.html?$/i.test(a))));
+    entryCandidates.push(...Object.keys(loadedFiles).filter((path) =>
+      isMarkdownPath(path) && !isVendoredPath(path) && !/\/(README|CHANGELOG|LICENSE)[^/]*$/i.test(path)
+    ));
     const preferredEntries = [
       '/index.tsx',
       '/index.jsx',
@@ -271,7 +389,7 @@ function App() {
 
     if (!resolvedEntry) {
       setStatus('error');
-      setErrorMsg('No .tsx/.jsx entry file found in the ZIP archive.');
+      setErrorInfo(toErrorInfo('No .tsx/.jsx entry file found in the ZIP archive.', 'invalid-input'));
     } else {
       setStatus('idle');
       setLayout(null);
@@ -300,20 +418,22 @@ function App() {
     if ((!tsxContent && !projectContext) || !targetFormat) return;
 
     setStatus('analyzing');
-    setErrorMsg('');
+    setErrorInfo(null);
     setProjectWarnings([]);
     setRasterFallbackUsed(false);
     setProgress({
       stage: 'transpiling',
       percent: 8,
-      message: 'Compiling TSX locally with the bundled TypeScript compiler',
+      message: typeCheck
+        ? 'Type-checking the project with the bundled TypeScript compiler'
+        : 'Compiling TSX locally with the bundled TypeScript compiler',
     });
 
     try {
       setProgress({
         stage: 'rendering',
         percent: 32,
-        message: 'Mounting the component in a hidden 1280x720 stage',
+        message: `Mounting the component in a sandboxed ${stageLabel} stage`,
       });
       let sourceContent = tsxContent;
       let sourceName = fileName;
@@ -325,13 +445,31 @@ function App() {
           throw new Error('Selected entry file is empty or missing.');
         }
       }
-      const result = await parseTsxToLayout({
+      const props = propsText.trim() ? parsePropsJson(propsText, 'the props editor') : undefined;
+      const captureScript = parseCaptureScript(captureScriptText);
+      const clockTime = new Date(clockInput).getTime();
+      if (deterministic && Number.isNaN(clockTime)) {
+        throw new Error('Enter a valid clock time for the deterministic render.');
+      }
+      const result = await renderInSandbox({
         content: sourceContent,
         format: targetFormat,
         sourceName,
         forceSinglePage,
         project: projectContext || undefined,
-      });
+        captureStates,
+        captureScript: captureScript.length > 0 ? captureScript : undefined,
+        props,
+        dataset: datasetRows || undefined,
+        exportName: selectedExport || undefined,
+        typeCheck,
+        stage: stageSize,
+        readyTimeoutMs,
+        deterministic: deterministic
+          ? { time: clockTime, seed: Math.trunc(seed) || 0, advanceMs: DEFAULT_ADVANCE_MS }
+          : undefined,
+        animations: animationMode === 'time' ? { timeMs: Math.max(0, animationTimeMs) } : animationMode,
+      }, renderTimeoutMs);
       setProgress({
         stage: 'extracting',
         percent: 78,
@@ -351,7 +489,7 @@ function App() {
     } catch (err: any) {
       console.error(err);
       setStatus('error');
-      setErrorMsg(err.message || 'Failed to render component. Check console for details.');
+      setErrorInfo(toErrorInfo(err, 'render-failed', 'Failed to render component. Check console for details.'));
       setProgress(null);
     }
   };
@@ -383,10 +521,11 @@ function App() {
         setRasterFallbackUsed(true);
       }
 
+      const exportOptions: ExportOptions = { quality, pageSize: pageSize || undefined, fit: fitMode };
       if (targetFormat === 'PDF') {
-        await generatePDF(layout, { quality, rasterize: Boolean(needsFallback) }, onProgress);
+        await generatePDF(layout, { ...exportOptions, rasterize: Boolean(needsFallback) }, onProgress);
       } else {
-        await generatePPTX(layout, { quality, rasterize: Boolean(needsFallback) }, onProgress);
+        await generatePPTX(layout, { ...exportOptions, rasterize: Boolean(needsFallback) }, onProgress);
       }
       setProgress({
         stage: 'generating',
@@ -397,7 +536,7 @@ function App() {
     } catch (err: any) {
       console.error(err);
       setStatus('error');
-      setErrorMsg(err?.message || 'Failed to generate export.');
+      setErrorInfo(toErrorInfo(err, 'export-failed', 'Failed to generate export.'));
       setProgress(null);
     } finally {
       setIsExporting(false);
@@ -408,9 +547,27 @@ function App() {
     setStatus('idle');
     setLayout(null);
     setTargetFormat(null);
-    setErrorMsg('');
+    setErrorInfo(null);
     setForceSinglePage(false);
+    setCaptureStates(false);
+    setTypeCheck(false);
+    setRenderTimeoutMs(DEFAULT_RENDER_TIMEOUT_MS);
+    setReadyTimeoutMs(DEFAULT_READY_TIMEOUT_MS);
+    setDeterministic(false);
+    setClockInput(toClockInput(currentMinute()));
+    setSeed(1);
+    setAnimationMode('first-frame');
+    setAnimationTimeMs(1000);
+    setPropsText('');
+    setCaptureScriptText('');
+    setDatasetRows(null);
+    setDatasetName(null);
+    setExportChoice('');
     setQuality('standard');
+    setPageSize('');
+    setFitMode('stretch');
+    setStagePreset(STAGE_PRESETS[0].id);
+    setCustomStage(STAGE_PRESETS[0].size);
     setProgress(null);
     setProjectFiles(null);
     setProjectEntry(null);
@@ -443,10 +600,10 @@ function App() {
             <span className="step">1</span>
             <div>
               <div className="panel-title">Add a TSX/JSX file</div>
-              <div className="panel-subtitle">Components render inside a sandboxed 1280x720 stage.</div>
+              <div className="panel-subtitle">Components render inside a sandboxed {stageLabel} stage.</div>
             </div>
           </header>
-          <input type="file" accept=".tsx,.ts,.jsx,.js" onChange={handleFileUpload} className="hidden" ref={fileInputRef} />
+          <input type="file" accept=".tsx,.ts,.jsx,.js,.md,.mdx,.markdown,.html,.htm" onChange={handleFileUpload} className="hidden" ref={fileInputRef} />
           <input
             type="file"
             multiple
@@ -463,6 +620,13 @@ function App() {
             className="hidden"
             ref={zipInputRef}
           />
+          <input
+            type="file"
+            accept=".csv,.json"
+            onChange={handleDatasetUpload}
+            className="hidden"
+            ref={datasetInputRef}
+          />
           <button
             className={`dropzone ${fileName ? 'dropzone-ready' : ''} ${isDragging ? 'dropzone-active' : ''}`}
             onClick={() => fileInputRef.current?.click()}
@@ -502,6 +666,47 @@ function App() {
           >
             Upload Zip (Project Mode)
           </button>
+          {componentExportNames.length > 1 && (
+            <div className="select-row">
+              <div className="select-label">Component export</div>
+              <select value={selectedExport} onChange={(e) => setExportChoice(e.target.value)}>
+                <option value="">
+                  {entryIsStories ? 'All stories' : isMarkdownPath(projectEntry || fileName) ? 'All slides' : 'Auto (default export)'}
+                </option>
+                {componentExportNames.map((name) => (
+                  <option key={name} value={name}>
+                    {name === 'default' ? 'default export' : name}
+                  </option>
+                ))}
+                {!entryIsStories && !isMarkdownPath(projectEntry || fileName) && <option value={ALL_EXPORTS}>All exports (one page each)</option>}
+              </select>
+            </div>
+          )}
+          <button
+            className="ghost"
+            onClick={() => datasetInputRef.current?.click()}
+            type="button"
+          >
+            Upload Dataset (Mail Merge)
+          </button>
+          {datasetRows && (
+            <div className="select-row">
+              <div className="select-label">Dataset</div>
+              <div className="truncate">
+                {datasetName} — {datasetRows.length} record{datasetRows.length > 1 ? 's' : ''}, one slide each
+              </div>
+              <button
+                className="ghost"
+                onClick={() => {
+                  setDatasetRows(null);
+                  setDatasetName(null);
+                }}
+                type="button"
+              >
+                Remove dataset
+              </button>
+            </div>
+          )}
           {projectFiles && (
             <div className="select-row">
               <div className="select-label">Entry file</div>
@@ -513,7 +718,7 @@ function App() {
                 }}
               >
                 {Object.keys(projectFiles)
-                  .filter((path) => /\.(tsx|jsx|ts|js)$/.test(path))
+                  .filter((path) => (/\.(tsx|jsx|ts|js)$/.test(path) || isMarkdownPath(path) || isHtmlPath(path)) && !isVendoredPath(path))
                   .map((path) => (
                     <option key={path} value={path}>
                       {path.replace(/^\//, '')}
@@ -566,6 +771,27 @@ function App() {
               ))}
             </div>
           </div>
+          <div className="select-row">
+            <div className="select-label">Page size</div>
+            <select value={pageSize} onChange={(e) => setPageSize(e.target.value as ExportOptions['pageSize'] | '')} disabled={!fileName}>
+              <option value="">
+                Default ({targetFormat ? DEFAULT_PAGE_SIZES[targetFormat] : 'A4 for PDF, 16:9 for PPTX'})
+              </option>
+              <option value="A4">A4</option>
+              <option value="letter">Letter</option>
+              <option value="16:9">16:9 slide</option>
+              <option value="4:3">4:3 slide</option>
+            </select>
+          </div>
+          <div className="select-row">
+            <div className="select-label">Fit to page</div>
+            <select value={fitMode} onChange={(e) => setFitMode(e.target.value as FitMode)} disabled={!fileName}>
+              <option value="stretch">Stretch to fill the page</option>
+              <option value="letterbox">Letterbox (keep aspect ratio, add margins)</option>
+              <option value="crop">Crop (keep aspect ratio, fill the page)</option>
+            </select>
+            <div className="toggle-subtitle">Applies when the page and stage aspect ratios differ. A4 and Letter follow the stage orientation.</div>
+          </div>
         </section>
 
         <section className="panel">
@@ -588,6 +814,57 @@ function App() {
               <div className="toggle-subtitle">Scale long content into one page instead of paginating.</div>
             </div>
           </label>
+          <label className="toggle-row">
+            <input
+              type="checkbox"
+              checked={captureStates}
+              onChange={(e) => setCaptureStates(e.target.checked)}
+            />
+            <div>
+              <div className="toggle-title">Capture all slide states</div>
+              <div className="toggle-subtitle">Step through multi-slide components (slides export, useSlideCapture, or Next button).</div>
+            </div>
+          </label>
+          <label className="toggle-row">
+            <input
+              type="checkbox"
+              checked={typeCheck}
+              onChange={(e) => setTypeCheck(e.target.checked)}
+            />
+            <div>
+              <div className="toggle-title">Strict type check</div>
+              <div className="toggle-subtitle">Type-check every project file before rendering and list each error with its code frame.</div>
+            </div>
+          </label>
+          <label className="toggle-row">
+            <input
+              type="checkbox"
+              checked={deterministic}
+              onChange={(e) => setDeterministic(e.target.checked)}
+            />
+            <div>
+              <div className="toggle-title">Deterministic render</div>
+              <div className="toggle-subtitle">Freeze the clock, seed Math.random and run timers on a virtual clock, so exports are reproducible.</div>
+            </div>
+          </label>
+          {deterministic && (
+            <div className="deterministic-inputs">
+              <input
+                type="datetime-local"
+                step={1}
+                value={clockInput}
+                onChange={(e) => setClockInput(e.target.value)}
+                aria-label="Frozen clock time"
+              />
+              <span>seed</span>
+              <input
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(Number(e.target.value))}
+                aria-label="Random seed"
+              />
+            </div>
+          )}
           <label className="toggle-row">
             <input
               type="checkbox"
@@ -599,6 +876,118 @@ function App() {
               <div className="toggle-subtitle">If vector export is unreliable, use a pixel-perfect slide image.</div>
             </div>
           </label>
+          <div className="select-row">
+            <div className="select-label">Component props (JSON)</div>
+            <textarea
+              className="props-editor"
+              value={propsText}
+              onChange={(e) => setPropsText(e.target.value)}
+              placeholder='{ "title": "Quarterly Review" }'
+              spellCheck={false}
+              rows={4}
+            />
+            <div className="toggle-subtitle">Overrides props.json and a props export from the entry file.</div>
+          </div>
+          <div className="select-row">
+            <div className="select-label">Capture script</div>
+            <textarea
+              className="props-editor"
+              value={captureScriptText}
+              onChange={(e) => setCaptureScriptText(e.target.value)}
+              placeholder={'click [data-step="next"]\ntoggle details.faq'}
+              spellCheck={false}
+              rows={4}
+            />
+            <div className="toggle-subtitle">One selector per line, clicked (or toggled) in order; a build slide is captured after each step.</div>
+          </div>
+          <div className="select-row">
+            <div className="select-label">Stage size</div>
+            <select value={stagePreset} onChange={(e) => setStagePreset(e.target.value)}>
+              {STAGE_PRESETS.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+            {stagePreset === 'custom' && (
+              <div className="stage-size-inputs">
+                <input
+                  type="number"
+                  min={200}
+                  max={4096}
+                  value={customStage.width}
+                  onChange={(e) => setCustomStage({ ...customStage, width: Number(e.target.value) })}
+                  aria-label="Stage width in pixels"
+                />
+                <span>x</span>
+                <input
+                  type="number"
+                  min={200}
+                  max={4096}
+                  value={customStage.height}
+                  onChange={(e) => setCustomStage({ ...customStage, height: Number(e.target.value) })}
+                  aria-label="Stage height in pixels"
+                />
+              </div>
+            )}
+            <div className="toggle-subtitle">The component's viewport; vw/vh units and media queries resolve against it.</div>
+          </div>
+          <div className="select-row">
+            <div className="select-label">Animations</div>
+            <select
+              value={animationMode}
+              onChange={(e) => setAnimationMode(e.target.value as 'first-frame' | 'end' | 'time')}
+            >
+              <option value="first-frame">As rendered (first frame)</option>
+              <option value="end">Settled end state</option>
+              <option value="time">At a set time</option>
+            </select>
+            {animationMode === 'time' && (
+              <div className="animation-time-inputs">
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={animationTimeMs}
+                  onChange={(e) => setAnimationTimeMs(Number(e.target.value))}
+                  aria-label="Animation time in milliseconds"
+                />
+                <span>ms from start</span>
+              </div>
+            )}
+            <div className="toggle-subtitle">Fast-forward CSS animations, transitions and Web Animations before capture.</div>
+          </div>
+          <div className="select-row">
+            <div className="select-label">Render time limit</div>
+            <select
+              value={renderTimeoutMs}
+              onChange={(e) => {
+                const limit = Number(e.target.value);
+                setRenderTimeoutMs(limit);
+                // Readiness waits must end within the page's time limit
+                setReadyTimeoutMs((current) => (current < limit ? current : Math.max(...READY_TIMEOUT_OPTIONS.filter((ms) => ms < limit))));
+              }}
+            >
+              {[5000, 10000, 20000, 60000].map((ms) => (
+                <option key={ms} value={ms}>
+                  {ms / 1000} seconds
+                </option>
+              ))}
+            </select>
+            <div className="toggle-subtitle">Components run in an offline sandbox and are stopped when a page, record or slide state exceeds this limit.</div>
+          </div>
+          <div className="select-row">
+            <div className="select-label">Readiness timeout</div>
+            <select value={readyTimeoutMs} onChange={(e) => setReadyTimeoutMs(Number(e.target.value))}>
+              {READY_TIMEOUT_OPTIONS.map((ms) => (
+                <option key={ms} value={ms} disabled={ms >= renderTimeoutMs}>
+                  {ms / 1000} seconds
+                </option>
+              ))}
+            </select>
+            <div className="toggle-subtitle">Longest wait per page for lazy components, data loaded in effects, and markReady() or data-ready; shorter than the render time limit.</div>
+          </div>
 
           {status !== 'preview' ? (
             <button className="primary" onClick={processFile} disabled={!readyToRender || status === 'analyzing'}>
@@ -630,10 +1019,10 @@ function App() {
             </button>
           )}
 
-          {status === 'error' && (
+          {status === 'error' && errorInfo && (
             <ErrorDisplay
-              error={buildErrorInfo(errorMsg)}
-              onRetry={readyToRender && status !== 'analyzing' ? processFile : undefined}
+              error={errorInfo}
+              onRetry={readyToRender ? processFile : undefined}
             />
           )}
         </section>
@@ -672,17 +1061,26 @@ function App() {
           <div className="session-card">
             <div className="session-label">File</div>
             <div className="session-value">{fileName || 'Drop a TSX/JSX file'}</div>
-            <div className="session-hint">{readyToRender ? 'Loaded locally' : 'Nothing selected yet'}</div>
+            <div className="session-hint">
+              {layout?.props?.sources.length
+                ? `Props from ${layout.props.sources.join(', ')}`
+                : readyToRender ? 'Loaded locally' : 'Nothing selected yet'}
+            </div>
           </div>
           <div className="session-card">
             <div className="session-label">Target</div>
             <div className="session-value">{targetFormat || 'PDF or PPTX'}</div>
-            <div className="session-hint">Stage: 1280x720 sandbox</div>
+            <div className="session-hint">Stage: {stageLabel} sandbox</div>
           </div>
           <div className="session-card">
             <div className="session-label">Quality</div>
             <div className="session-value">{quality}</div>
-            <div className="session-hint">{forceSinglePage ? 'Forcing single slide' : 'Auto paginate'}</div>
+            <div className="session-hint">
+              {datasetRows
+                ? `Merging ${datasetRows.length} records`
+                : captureScriptText.trim() ? 'Replaying the capture script'
+                : captureStates ? 'Capturing every slide state' : forceSinglePage ? 'Forcing single slide' : 'Auto paginate'}
+            </div>
           </div>
           <div className="session-card accent">
             <div className="session-label">Status</div>
@@ -693,7 +1091,11 @@ function App() {
                   ? 'Measuring layout…'
                   : 'Ready to render'}
             </div>
-            <div className="session-hint">Offline • No network calls</div>
+            <div className="session-hint">
+              {layout?.deterministic
+                ? `Clock ${toClockInput(layout.deterministic.time).replace('T', ' ')} • seed ${layout.deterministic.seed}`
+                : 'Offline • No network calls'}
+            </div>
           </div>
         </div>
 
@@ -719,7 +1121,7 @@ function App() {
               </div>
               <div className="empty-title">Drop in a TSX/JSX file to start</div>
               <div className="empty-copy">
-                We transpile with TypeScript, render the component in a hidden 1280x720 surface, and map every visible text and shape before
+                We transpile with TypeScript, render the component in a hidden {stageLabel} surface, and map every visible text and shape before
                 generating export-friendly vectors.
               </div>
             </div>
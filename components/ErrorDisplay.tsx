@@ -17,6 +17,47 @@ export const ErrorDisplay: React.FC<Props> = ({ error, onRetry }) => {
         <div className="error-code">{error.code}</div>
         <div className="error-message">{error.message}</div>
         <div className="error-suggestion">{error.suggestion}</div>
+        {(error.location || error.moduleName) && (
+          <dl className="error-fields">
+            {error.location && (
+              <>
+                <dt>File</dt>
+                <dd>{error.location.file.replace(/^\//, '')}:{error.location.line}:{error.location.column}</dd>
+              </>
+            )}
+            {error.moduleName && (
+              <>
+                <dt>Module</dt>
+                <dd>{error.moduleName}</dd>
+              </>
+            )}
+          </dl>
+        )}
+        {error.location?.codeFrame && <pre className="error-code-frame">{error.location.codeFrame}</pre>}
+        {error.componentStack && (
+          <details className="error-component-stack">
+            <summary>Component stack</summary>
+            <pre>{error.componentStack}</pre>
+          </details>
+        )}
+        {error.diagnostics && error.diagnostics.length > 0 && (
+          <ul className="error-diagnostics">
+            {error.diagnostics.map((diagnostic, index) => (
+              <li key={index} className={`error-diagnostic ${diagnostic.category}`}>
+                <div className="error-diagnostic-head">
+                  {diagnostic.file && (
+                    <span className="error-diagnostic-location">
+                      {diagnostic.file.replace(/^\//, '')}:{diagnostic.line}:{diagnostic.column}
+                    </span>
+                  )}
+                  <span className="error-diagnostic-code">TS{diagnostic.code}</span>
+                </div>
+                <div className="error-diagnostic-message">{diagnostic.message}</div>
+                {diagnostic.codeFrame && <pre className="error-code-frame">{diagnostic.codeFrame}</pre>}
+              </li>
+            ))}
+          </ul>
+        )}
         {onRetry && error.canRetry && (
           <button className="ghost retry" onClick={onRetry}>
             <RefreshCw size={14} />
@@ -1,8 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
-import { DocumentLayout, LayoutElement, PageLayout } from '../types';
-
-const BASE_WIDTH = 1280;
+import { DocumentLayout, LayoutElement, PageLayout, StageSize } from '../types';
+import { DEFAULT_STAGE_SIZE } from '../services/stageSize';
 
 interface Props {
   layout: DocumentLayout;
@@ -85,11 +84,12 @@ const PreviewElement: React.FC<{ el: LayoutElement; scale: number }> = ({ el, sc
 
 interface SlidePreviewProps {
   page: PageLayout;
+  stage: StageSize;
   zoom: number;
   onScaleChange?: (scale: number) => void;
 }
 
-const SlidePreview: React.FC<SlidePreviewProps> = ({ page, zoom, onScaleChange }) => {
+const SlidePreview: React.FC<SlidePreviewProps> = ({ page, stage, zoom, onScaleChange }) => {
   const ref = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
   const lastFit = useRef<number>(1);
@@ -100,7 +100,7 @@ const SlidePreview: React.FC<SlidePreviewProps> = ({ page, zoom, onScaleChange }
 
     const updateScale = () => {
       const width = el.clientWidth;
-      const fitValue = width / BASE_WIDTH;
+      const fitValue = width / stage.width;
       setScale(fitValue);
       if (onScaleChange && Math.abs(fitValue - lastFit.current) > 0.002) {
         lastFit.current = fitValue;
@@ -112,12 +112,16 @@ const SlidePreview: React.FC<SlidePreviewProps> = ({ page, zoom, onScaleChange }
     const observer = new ResizeObserver(updateScale);
     observer.observe(el);
     return () => observer.disconnect();
-  }, []);
+  }, [stage.width]);
 
   const effectiveScale = scale * zoom;
 
   return (
-    <div className="slide" ref={ref} style={{ backgroundColor: page.bgColor || '#fff' }}>
+    <div
+      className="slide"
+      ref={ref}
+      style={{ backgroundColor: page.bgColor || '#fff', aspectRatio: `${stage.width} / ${stage.height}` }}
+    >
       {page.elements.map((el) => (
         <PreviewElement key={el.id} el={el} scale={effectiveScale} />
       ))}
@@ -161,6 +165,7 @@ export const LayoutPreview: React.FC<Props> = ({ layout }) => {
         <SlidePreview
           key={page.pageNumber}
           page={page}
+          stage={layout.stage ?? DEFAULT_STAGE_SIZE}
           onScaleChange={(value) => setFitScale(value)}
           zoom={zoom}
         />
@@ -0,0 +1,78 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { parseTsxToLayout } from './services/layoutEngine';
+import { SandboxMessage, serializeError } from './services/renderSandbox';
+import { DocumentLayout } from './types';
+
+// Same globals the app page exposes, for code written against UMD builds
+(window as any).React = React;
+(window as any).ReactDOM = ReactDOM;
+
+// The sandbox has an opaque origin, where storage and cookies throw on access.
+// Components get a per-render in-memory stand-in instead.
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this.items.get(String(key)) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(String(key), String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(String(key));
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+Object.defineProperty(window, 'localStorage', { value: new MemoryStorage(), configurable: true });
+Object.defineProperty(window, 'sessionStorage', { value: new MemoryStorage(), configurable: true });
+Object.defineProperty(document, 'cookie', { get: () => '', set: () => {}, configurable: true });
+
+const post = (message: SandboxMessage) => window.parent.postMessage(message, '*');
+
+// Props taken from module exports may hold functions or elements, which cannot be posted
+const toCloneable = (layout: DocumentLayout): DocumentLayout => {
+  if (!layout.props) return layout;
+  try {
+    structuredClone(layout.props.values);
+    return layout;
+  } catch {
+    let values: Record<string, any> = {};
+    try {
+      values = JSON.parse(JSON.stringify(layout.props.values));
+    } catch {
+      // Circular values are dropped; the sources still describe where props came from
+    }
+    return { ...layout, props: { ...layout.props, values } };
+  }
+};
+
+window.addEventListener('message', async (event: MessageEvent) => {
+  const message = event.data as SandboxMessage;
+  if (event.source !== window.parent || message?.type !== 'tsx2slides:render') return;
+  try {
+    const layout = await parseTsxToLayout(message.request, {
+      onPageStart: () => post({ type: 'tsx2slides:page' }),
+    });
+    post({ type: 'tsx2slides:result', layout: toCloneable(layout) });
+  } catch (err) {
+    console.error(err);
+    post({ type: 'tsx2slides:error', error: serializeError(err) });
+  }
+});
+
+post({ type: 'tsx2slides:ready' });
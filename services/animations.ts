@@ -0,0 +1,96 @@
+/**
+ * Animation Settling Service
+ *
+ * Fast-forwards CSS animations, CSS transitions and Web Animations on the stage before it
+ * is measured, so elements that fade or slide in are captured where they come to rest,
+ * or at a chosen time, instead of at their first frame.
+ */
+
+import { AnimationCapture } from '../types';
+
+/** Animations started by `animationend`/`transitionend` handlers are settled too, up to this many rounds */
+const MAX_ROUNDS = 3;
+/** Negative delay that moves any finite CSS animation past its end in snapshots */
+const END_DELAY_MS = 86400000;
+
+type SeekTarget = Exclude<AnimationCapture, 'first-frame'>;
+
+const seekAnimation = (animation: Animation, target: SeekTarget) => {
+  if (target !== 'end') {
+    animation.pause();
+    animation.currentTime = Math.max(0, target.timeMs);
+    return;
+  }
+  const timing = animation.effect?.getComputedTiming();
+  if (Number.isFinite(timing?.endTime ?? 0)) {
+    animation.finish();
+    return;
+  }
+  // Infinite loops have no end; they stop on the last frame of their first iteration
+  animation.pause();
+  animation.currentTime = Math.max(0, (timing?.delay ?? 0) + (Number(timing?.duration) || 0) - 1);
+};
+
+/**
+ * Seeks every running animation under `container` to `target`, waiting a frame between
+ * rounds for animations started in response. Returns how many animations were settled.
+ */
+export const settleAnimations = async (
+  container: HTMLElement,
+  target: SeekTarget,
+  waitForFrame: () => Promise<unknown>
+): Promise<number> => {
+  let settled = 0;
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    const running = container.getAnimations({ subtree: true })
+      .filter(({ playState }) => playState === 'running');
+    if (running.length === 0) break;
+    running.forEach((animation) => {
+      try {
+        seekAnimation(animation, target);
+        settled += 1;
+      } catch {
+        // Animations with a zero playback rate cannot be finished; they stay as they are
+      }
+    });
+    await waitForFrame();
+  }
+  return settled;
+};
+
+/** Marks animated elements in a snapshot so their frozen delays can be targeted */
+const FREEZE_ATTRIBUTE = 'data-tsx2slides-freeze';
+
+const toMs = (value: string) => parseFloat(value) * (value.trim().endsWith('ms') ? 1 : 1000);
+
+/**
+ * Delays that show each of an element's animations `offsetMs` after it started playing
+ */
+const frozenDelays = (style: CSSStyleDeclaration, offsetMs: number) =>
+  style.animationName && style.animationName !== 'none'
+    ? style.animationDelay.split(',').map((delay) => `${toMs(delay) - offsetMs}ms`).join(', ')
+    : null;
+
+/**
+ * Freezes animations in a static snapshot at the same point, since the raster fallback
+ * renders the snapshot from scratch where every animation would restart. Each animated
+ * element keeps its own delay shifted by the capture time, so staggered entrances stay
+ * staggered. Returns the snapshot markup with animated elements marked, and the freeze CSS.
+ */
+export const freezeSnapshotAnimations = (container: HTMLElement, target: SeekTarget) => {
+  const offset = target === 'end' ? END_DELAY_MS : Math.max(0, target.timeMs);
+  const copy = container.cloneNode(true) as HTMLElement;
+  const copies = Array.from(copy.querySelectorAll('*'));
+  const rules = ['*, *::before, *::after { animation-play-state: paused !important; transition: none !important; }'];
+  Array.from(container.querySelectorAll('*')).forEach((element, index) => {
+    let animated = false;
+    ['', '::before', '::after'].forEach((pseudo) => {
+      const delays = frozenDelays(window.getComputedStyle(element, pseudo || null), offset);
+      if (!delays) return;
+      rules.push(`[${FREEZE_ATTRIBUTE}="${index}"]${pseudo} { animation-delay: ${delays} !important; }`);
+      animated = true;
+    });
+    if (animated) copies[index]?.setAttribute(FREEZE_ATTRIBUTE, String(index));
+  });
+  return { html: copy.innerHTML, css: rules.join('\n') };
+};
@@ -0,0 +1,76 @@
+/**
+ * Bundled Libraries
+ *
+ * Registry of libraries shipped with the app that user components may import.
+ * Each library is loaded lazily (as its own chunk) only when a source references it,
+ * so imports resolve to the real implementation while staying fully offline.
+ */
+
+import { parseBareSpecifier } from './packageResolver';
+
+type LibraryLoader = () => Promise<Record<string, any>>;
+type SubpathResolver = (subpath: string, library: Record<string, any>) => Record<string, any> | null;
+
+const BUNDLED_LIBRARIES: Record<string, LibraryLoader> = {
+  'lucide-react': () => import('lucide-react'),
+};
+
+const toPascalCase = (name: string) => name.split('-').map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+
+/** Maps deep imports of a bundled library to modules built from its loaded entry */
+const SUBPATH_RESOLVERS: Record<string, SubpathResolver> = {
+  // `lucide-react/icons/x` and `lucide-react/dist/esm/icons/x` default-export the icon `X`
+  'lucide-react': (subpath, library) => {
+    const icon = subpath.match(/(?:^|\/)icons\/([a-z0-9-]+)(?:\.[cm]?js)?$/)?.[1];
+    const name = icon ? toPascalCase(icon) : '';
+    return library[name] ? { __esModule: true, default: library[name], [name]: library[name] } : null;
+  },
+};
+
+/** Package names of the bundled libraries */
+export const BUNDLED_LIBRARY_NAMES = Object.keys(BUNDLED_LIBRARIES);
+
+const loadedLibraries = new Map<string, Record<string, any>>();
+
+/**
+ * Lists the bundled libraries imported or required by any of the sources, by package name
+ * or by a subpath inside the package
+ */
+export const findReferencedLibraries = (sources: string[]): string[] =>
+  Object.keys(BUNDLED_LIBRARIES).filter((name) => {
+    const specifier = new RegExp(`(['"])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:/[^'"]*)?\\1`);
+    return sources.some((source) => specifier.test(source));
+  });
+
+/**
+ * Loads the given bundled libraries so they can be required synchronously.
+ * Returns the names that failed to load.
+ */
+export const preloadBundledLibraries = async (names: string[]): Promise<string[]> => {
+  const failed: string[] = [];
+  await Promise.all(
+    names
+      .filter((name) => !loadedLibraries.has(name))
+      .map(async (name) => {
+        try {
+          loadedLibraries.set(name, await BUNDLED_LIBRARIES[name]());
+        } catch (err) {
+          console.warn(`Failed to load bundled library ${name}:`, err);
+          failed.push(name);
+        }
+      })
+  );
+  return failed;
+};
+
+/**
+ * Returns a preloaded bundled library, or the module a deep import of it maps to.
+ * Returns null when it is not bundled, not loaded, or the subpath is not recognized.
+ */
+export const getBundledLibrary = (specifier: string): Record<string, any> | null => {
+  const { name, subpath } = parseBareSpecifier(specifier);
+  const library = loadedLibraries.get(name);
+  if (!library) return null;
+  if (!subpath) return library;
+  return SUBPATH_RESOLVERS[name]?.(subpath, library) ?? null;
+};
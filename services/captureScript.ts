@@ -0,0 +1,61 @@
+/**
+ * Capture Script Service
+ *
+ * Turns an interactive component into build slides. A capture script lists the controls
+ * to operate in order, one per line: `click <selector>` (the default when no action is
+ * given) or `toggle <selector>`, which opens or closes a `<details>` element and clicks
+ * anything else. The layout engine captures a page before the first step and after each one.
+ */
+
+export interface CaptureStep {
+  action: 'click' | 'toggle';
+  selector: string;
+}
+
+const ACTIONS: CaptureStep['action'][] = ['click', 'toggle'];
+
+/**
+ * Parses a capture script; blank lines and lines starting with `#` or `//` are skipped.
+ * Invalid selectors are reported with their line number.
+ */
+export const parseCaptureScript = (text: string): CaptureStep[] => {
+  const steps: CaptureStep[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('//') || /^#(\s|$)/.test(line)) return;
+    const [first, ...rest] = line.split(/\s+/);
+    const action = ACTIONS.find((name) => name === first.toLowerCase());
+    const selector = action ? rest.join(' ') : line;
+    if (!selector) {
+      throw new Error(`Capture script line ${index + 1}: "${first}" needs a selector.`);
+    }
+    try {
+      document.createDocumentFragment().querySelector(selector);
+    } catch {
+      throw new Error(`Capture script line ${index + 1}: "${selector}" is not a valid CSS selector.`);
+    }
+    steps.push({ action: action ?? 'click', selector });
+  });
+  return steps;
+};
+
+/**
+ * Formats a step for diagnostics and speaker notes
+ */
+export const describeCaptureStep = ({ action, selector }: CaptureStep) => `${action} ${selector}`;
+
+/**
+ * Performs one step against the mounted component. Returns an error message when the
+ * step could not run.
+ */
+export const runCaptureStep = (container: HTMLElement, { action, selector }: CaptureStep): string | null => {
+  const target = container.querySelector<HTMLElement>(selector);
+  if (!target) return `no element matches ${selector}`;
+  if (action === 'toggle' && target instanceof HTMLDetailsElement) {
+    target.open = !target.open;
+    return null;
+  }
+  if ((target as HTMLButtonElement).disabled) return `${selector} is disabled`;
+  target.click();
+  return null;
+};
@@ -0,0 +1,27 @@
+/**
+ * Code Frame
+ *
+ * Formats the source lines around a diagnostic or error location for display.
+ */
+
+const CODE_FRAME_CONTEXT = 2;
+
+/**
+ * Renders the lines around a location with a `>` marker and a caret underline
+ */
+export const buildCodeFrame = (text: string, line: number, column: number, length = 1) => {
+  const lines = text.split(/\r?\n/);
+  const first = Math.max(1, line - CODE_FRAME_CONTEXT);
+  const last = Math.min(lines.length, line + CODE_FRAME_CONTEXT);
+  const gutter = String(last).length;
+  const frame: string[] = [];
+  for (let current = first; current <= last; current++) {
+    const content = lines[current - 1].replace(/\t/g, '  ');
+    frame.push(`${current === line ? '>' : ' '} ${String(current).padStart(gutter)} | ${content}`.trimEnd());
+    if (current === line) {
+      const underline = Math.max(1, Math.min(length, content.length - column + 1));
+      frame.push(`  ${' '.repeat(gutter)} | ${' '.repeat(Math.max(0, column - 1))}${'^'.repeat(underline)}`);
+    }
+  }
+  return frame.join('\n');
+};
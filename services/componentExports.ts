@@ -0,0 +1,84 @@
+/**
+ * Component Exports Service
+ *
+ * Lists the component exports of an entry module so the user can choose which
+ * one to render, or render all of them as consecutive pages.
+ */
+
+import * as ts from 'typescript';
+import { isStoriesFile } from './storybook';
+
+/** Export name that selects every component export */
+export const ALL_EXPORTS = '*';
+
+/**
+ * Components are the default export and PascalCase named exports;
+ * camelCase exports are treated as helpers, hooks or data
+ */
+const isComponentName = (name: string) => name === 'default' || /^[A-Z]/.test(name);
+
+const hasModifier = (node: ts.Node, kind: ts.SyntaxKind) =>
+  ts.canHaveModifiers(node) && Boolean(ts.getModifiers(node)?.some((modifier) => modifier.kind === kind));
+
+/**
+ * Statically lists the component-like exports of a module in source order.
+ * In `*.stories.*` files these are the stories; the default export is the CSF meta.
+ */
+export const listComponentExports = (content: string, fileName = 'inline.tsx'): string[] => {
+  const scriptKind = /\.(ts|mts|cts)$/i.test(fileName) ? ts.ScriptKind.TS : ts.ScriptKind.TSX;
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, false, scriptKind);
+  const names: string[] = [];
+  const add = (name: string) => {
+    if (isComponentName(name) && !names.includes(name)) names.push(name);
+  };
+
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      add('default');
+    } else if (ts.isExportDeclaration(statement) && !statement.isTypeOnly && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach((element) => {
+        if (!element.isTypeOnly) add(element.name.text);
+      });
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+        if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) add('default');
+        else if (statement.name) add(statement.name.text);
+      } else if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach((declaration) => {
+          if (ts.isIdentifier(declaration.name)) add(declaration.name.text);
+        });
+      }
+    }
+  });
+
+  return isStoriesFile(fileName) ? names.filter((name) => name !== 'default') : names;
+};
+
+/**
+ * Checks whether a runtime export can be rendered: a function or class component,
+ * or a `memo`/`forwardRef`/`lazy` wrapper
+ */
+export const isComponentExport = (value: unknown) =>
+  typeof value === 'function'
+  || (Boolean(value) && typeof value === 'object' && typeof (value as { $$typeof?: unknown }).$$typeof === 'symbol');
+
+/**
+ * Returns the renderable component exports, in source order when known.
+ * An export that aliases another (e.g. `export default Slide`) is listed once.
+ */
+export const collectComponentExports = (
+  exportsObj: Record<string, any>,
+  sourceOrder: string[] = []
+): { name: string; component: any }[] => {
+  const runtimeNames = Object.keys(exportsObj).filter((name) => isComponentName(name));
+  const ordered = [...sourceOrder.filter((name) => name in exportsObj), ...runtimeNames];
+  const seen = new Set<unknown>();
+  return ordered
+    .filter((name, index) => ordered.indexOf(name) === index)
+    .map((name) => ({ name, component: exportsObj[name] }))
+    .filter(({ component }) => {
+      if (!isComponentExport(component) || seen.has(component)) return false;
+      seen.add(component);
+      return true;
+    });
+};
@@ -0,0 +1,88 @@
+/**
+ * Component Props Service
+ *
+ * Collects the props passed to the rendered root component. Sources are merged
+ * from lowest to highest precedence: the component's `defaultProps`, a `props`
+ * export, a props JSON file in the project, and props typed into the editor.
+ */
+
+import { ComponentProps, ProjectContext } from '../types';
+import { InvalidInputError } from './errors';
+import { isPlainObject } from './objectUtils';
+import { isVendoredPath } from './packageResolver';
+
+/** Named exports treated as sample props for the default component */
+const PROPS_EXPORT_NAMES = ['props', 'previewProps', 'sampleProps'];
+
+/**
+ * Finds the props file for an entry: `<Entry>.props.json`, then `props.json` next to it,
+ * then the `props.json` closest to the project root
+ */
+export const findPropsFile = (files: ProjectContext['files'], entryPath?: string | null): string | null => {
+  if (entryPath) {
+    const dir = entryPath.split('/').slice(0, -1).join('/');
+    const base = entryPath.split('/').pop()!.replace(/\.[^.]+$/, '');
+    const candidates = [`${dir}/${base}.props.json`, `${dir}/props.json`];
+    const match = candidates.find((candidate) => files[candidate]?.kind === 'text');
+    if (match) return match;
+  }
+  return Object.keys(files)
+    .filter((path) => !isVendoredPath(path) && path.split('/').pop() === 'props.json')
+    .sort((a, b) => a.split('/').length - b.split('/').length)[0] || null;
+};
+
+/**
+ * Parses props typed by the user or read from a file; they must form a JSON object
+ */
+export const parsePropsJson = (text: string, label: string): Record<string, any> => {
+  const suggestion = `Fix ${label} so it holds a JSON object such as { "title": "Q3 Review" }, or clear it.`;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    throw new InvalidInputError(`Invalid JSON in ${label}: ${err?.message || err}`, suggestion);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new InvalidInputError(`${label} must contain a JSON object of props.`, suggestion);
+  }
+  return parsed;
+};
+
+/**
+ * Resolves the props for the root component and records where they came from
+ */
+export const resolveComponentProps = (options: {
+  component: any;
+  exportsObj: Record<string, any>;
+  project?: ProjectContext;
+  entryPath?: string | null;
+  overrides?: Record<string, any>;
+}): ComponentProps => {
+  const { component, exportsObj, project, entryPath, overrides } = options;
+  const result: ComponentProps = { values: {}, sources: [] };
+
+  if (isPlainObject(component?.defaultProps)) {
+    Object.assign(result.values, component.defaultProps);
+    result.sources.push('defaultProps');
+  }
+
+  const exportName = PROPS_EXPORT_NAMES.find((name) => isPlainObject(exportsObj[name]));
+  if (exportName) {
+    Object.assign(result.values, exportsObj[exportName]);
+    result.sources.push('export');
+  }
+
+  const propsPath = project ? findPropsFile(project.files, entryPath) : null;
+  if (propsPath) {
+    Object.assign(result.values, parsePropsJson(project!.files[propsPath].content, propsPath.replace(/^\//, '')));
+    result.sources.push('file');
+    result.filePath = propsPath;
+  }
+
+  if (overrides && Object.keys(overrides).length > 0) {
+    Object.assign(result.values, overrides);
+    result.sources.push('editor');
+  }
+
+  return result;
+};
@@ -0,0 +1,222 @@
+/**
+ * CSS Modules Service
+ *
+ * Scopes class names and keyframes in `*.module.css` files the way bundlers do,
+ * returning the rewritten CSS together with the class-name map that the module exports.
+ */
+
+export interface CssModuleResult {
+  css: string;
+  classMap: Record<string, string>;
+}
+
+export interface CssModuleOptions {
+  /** Returns the class map of another CSS module referenced by `composes: x from '...'` */
+  resolveComposes?: (specifier: string) => Record<string, string> | null;
+  /** Maps a relative url() reference to an inlined data URL */
+  resolveUrl?: (url: string) => string | null;
+}
+
+type BlockKind = 'rules' | 'declarations' | 'keyframes';
+
+const IDENT = /^-?[_a-zA-Z][_a-zA-Z0-9-]*/;
+
+const shortHash = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = (Math.imul(hash, 33) ^ value.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36).slice(0, 5);
+};
+
+const toCamelCase = (value: string) => value.replace(/-+([a-zA-Z0-9])/g, (_m, char: string) => char.toUpperCase());
+
+/**
+ * Finds the index of the parenthesis that closes the one opened just before `start`
+ */
+const findClosingParen = (text: string, start: number) => {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')' && --depth === 0) return i;
+  }
+  return text.length;
+};
+
+/**
+ * Checks whether a CSS file should be treated as a CSS Module
+ */
+export const isCssModulePath = (filePath: string) => /\.module\.css$/i.test(filePath);
+
+/**
+ * Rewrites a CSS Module: local class names and keyframes get a file-specific suffix,
+ * `:global(...)` selectors are left untouched and `composes` is folded into the class map.
+ */
+export const transformCssModule = (cssText: string, filePath: string, options: CssModuleOptions = {}): CssModuleResult => {
+  const baseName = (filePath.split('/').pop() || 'module').replace(/\.module\.css$/i, '').replace(/[^a-zA-Z0-9_-]/g, '_');
+  const hash = shortHash(filePath);
+  const scoped = (name: string) => `${baseName}_${name}__${hash}`;
+  const classMap: Record<string, string> = {};
+  const css = cssText.replace(/\/\*[\s\S]*?\*\//g, '');
+
+  const keyframes = new Set<string>();
+  css.replace(/@keyframes\s+(-?[_a-zA-Z][_a-zA-Z0-9-]*)/g, (_m, name: string) => {
+    keyframes.add(name);
+    return _m;
+  });
+
+  const registerClass = (name: string) => {
+    if (!classMap[name]) classMap[name] = scoped(name);
+    return scoped(name);
+  };
+
+  const scopeSelector = (selector: string): { text: string; locals: string[] } => {
+    let text = '';
+    const locals: string[] = [];
+    let i = 0;
+    while (i < selector.length) {
+      if (selector.startsWith(':global(', i)) {
+        const end = findClosingParen(selector, i + ':global('.length);
+        text += selector.slice(i + ':global('.length, end);
+        i = end + 1;
+      } else if (selector.startsWith(':local(', i)) {
+        const end = findClosingParen(selector, i + ':local('.length);
+        const inner = scopeSelector(selector.slice(i + ':local('.length, end));
+        text += inner.text;
+        locals.push(...inner.locals);
+        i = end + 1;
+      } else if (selector[i] === '.' && IDENT.test(selector.slice(i + 1))) {
+        const name = selector.slice(i + 1).match(IDENT)![0];
+        text += `.${registerClass(name)}`;
+        locals.push(name);
+        i += name.length + 1;
+      } else if (selector[i] === '[' || selector[i] === '"' || selector[i] === "'") {
+        const close = selector[i] === '[' ? ']' : selector[i];
+        const end = selector.indexOf(close, i + 1);
+        const stop = end === -1 ? selector.length : end + 1;
+        text += selector.slice(i, stop);
+        i = stop;
+      } else {
+        text += selector[i];
+        i++;
+      }
+    }
+    return { text, locals };
+  };
+
+  const rewriteDeclarations = (body: string, locals: string[]) =>
+    body
+      .split(';')
+      .map((declaration) => {
+        const match = declaration.match(/^\s*([-a-zA-Z]+)\s*:([\s\S]*)$/);
+        if (!match) return declaration;
+        const [, property, rawValue] = match;
+        const value = rawValue.trim();
+
+        if (property === 'composes') {
+          const composed = value.match(/^(.+?)\s+from\s+(?:"([^"]+)"|'([^']+)'|(global))$/);
+          const names = (composed ? composed[1] : value).split(/\s+/).filter(Boolean);
+          const source = composed ? composed[2] || composed[3] || composed[4] : null;
+          const external = source && source !== 'global' ? options.resolveComposes?.(source) : null;
+          const resolved = names.map((name) =>
+            source === 'global' ? name : source ? external?.[name] || name : (registerClass(name), classMap[name])
+          );
+          // Several composes declarations in one rule add up
+          locals.forEach((local) => {
+            registerClass(local);
+            const classes = [classMap[local], ...resolved].join(' ').split(/\s+/).filter(Boolean);
+            classMap[local] = Array.from(new Set(classes)).join(' ');
+          });
+          return '';
+        }
+
+        let rewritten = value;
+        if (/^animation(-name)?$/.test(property)) {
+          rewritten = rewritten.replace(/-?[_a-zA-Z][_a-zA-Z0-9-]*/g, (word) => (keyframes.has(word) ? scoped(word) : word));
+        }
+        if (options.resolveUrl && rewritten.includes('url(')) {
+          rewritten = rewritten.replace(/url\(([^)]+)\)/g, (full, raw: string) => {
+            const cleaned = raw.trim().replace(/^['"]|['"]$/g, '');
+            if (cleaned.startsWith('data:') || cleaned.startsWith('http')) return full;
+            const inlined = options.resolveUrl!(cleaned);
+            return inlined ? `url('${inlined}')` : full;
+          });
+        }
+        return ` ${property}: ${rewritten}`;
+      })
+      .filter((declaration) => declaration.trim().length > 0)
+      .join(';');
+
+  let output = '';
+  let buffer = '';
+  const stack: { kind: BlockKind; locals: string[] }[] = [];
+  const currentKind = (): BlockKind => stack[stack.length - 1]?.kind ?? 'rules';
+
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+    if (char === '"' || char === "'") {
+      const end = css.indexOf(char, i + 1);
+      const stop = end === -1 ? css.length - 1 : end;
+      buffer += css.slice(i, stop + 1);
+      i = stop;
+      continue;
+    }
+
+    if (char === '{') {
+      const prelude = buffer.trim();
+      buffer = '';
+      if (currentKind() === 'declarations') {
+        // Nested rules are not part of CSS Modules semantics; keep them verbatim
+        output += `${prelude} {`;
+        stack.push({ kind: 'declarations', locals: [] });
+        continue;
+      }
+      if (prelude.startsWith('@keyframes')) {
+        const name = prelude.replace(/^@keyframes\s+/, '');
+        output += `@keyframes ${keyframes.has(name) ? scoped(name) : name} {`;
+        stack.push({ kind: 'keyframes', locals: [] });
+      } else if (prelude.startsWith('@font-face') || prelude.startsWith('@page')) {
+        output += `${prelude} {`;
+        stack.push({ kind: 'declarations', locals: [] });
+      } else if (prelude.startsWith('@')) {
+        output += `${prelude} {`;
+        stack.push({ kind: 'rules', locals: [] });
+      } else if (currentKind() === 'keyframes') {
+        output += `${prelude} {`;
+        stack.push({ kind: 'declarations', locals: [] });
+      } else {
+        const { text, locals } = scopeSelector(prelude);
+        output += `${text} {`;
+        stack.push({ kind: 'declarations', locals });
+      }
+      continue;
+    }
+
+    if (char === '}') {
+      const block = stack.pop();
+      if (block?.kind === 'declarations') {
+        output += `${rewriteDeclarations(buffer, block.locals)} }\n`;
+      } else {
+        output += `${buffer.trim()}}\n`;
+      }
+      buffer = '';
+      continue;
+    }
+
+    if (char === ';' && currentKind() === 'rules') {
+      // Top-level statements such as @import or @charset
+      output += `${buffer.trim()};\n`;
+      buffer = '';
+      continue;
+    }
+
+    buffer += char;
+  }
+
+  Object.keys(classMap).forEach((name) => {
+    const camel = toCamelCase(name);
+    if (camel !== name && !(camel in classMap)) classMap[camel] = classMap[name];
+  });
+
+  return { css: output, classMap };
+};
@@ -0,0 +1,120 @@
+/**
+ * Decorators Service
+ *
+ * Wraps the rendered component in the providers it needs (theme, i18n, router context).
+ * Wrappers come from a `decorators` or `providers` export of a `tsx2slides.config` file
+ * and of the entry module. `decorators` follow Storybook: `(Story, context) => <Provider><Story /></Provider>`,
+ * the first one wrapping the component directly. `providers` list components that render
+ * their children, or `{ component, props }` entries, outermost first.
+ */
+
+import React from 'react';
+import { isPlainObject } from './objectUtils';
+
+export type StoryDecorator = (story: React.ComponentType<any>, context: Record<string, any>) => React.ReactNode;
+
+export type Decorator =
+  | { kind: 'decorator'; decorate: StoryDecorator }
+  | { kind: 'provider'; component: React.ElementType; props: Record<string, any> };
+
+/** Story context of the decorated component, read by each decorator when it renders */
+const DecoratorContext = React.createContext<Record<string, any>>({ args: {} });
+
+/** Context providers, memo and forwardRef components are objects rather than functions */
+const isElementType = (value: unknown) =>
+  typeof value === 'function' || (Boolean(value) && typeof value === 'object' && Boolean((value as any).$$typeof));
+
+/**
+ * Finds the shallowest tsx2slides.config file in a project
+ */
+export const findDecoratorConfigPath = (paths: string[]): string | null => {
+  const configs = paths
+    .filter((path) => /\/tsx2slides\.config\.(tsx|ts|jsx|js|cjs|mjs)$/.test(path))
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  return configs[0] || null;
+};
+
+const toProvider = (entry: unknown): Decorator | null => {
+  if (isElementType(entry)) return { kind: 'provider', component: entry as React.ElementType, props: {} };
+  if (isPlainObject(entry) && isElementType(entry.component)) {
+    return { kind: 'provider', component: entry.component, props: isPlainObject(entry.props) ? entry.props : {} };
+  }
+  return null;
+};
+
+/**
+ * Reads the `decorators` and `providers` exports of a module, innermost first. Entries that
+ * are neither functions nor `{ component, props }` objects are reported through `onInvalid`.
+ */
+export const readDecorators = (
+  exportsObj: Record<string, any>,
+  source: string,
+  onInvalid: (message: string) => void
+): Decorator[] => {
+  const exported = (name: 'decorators' | 'providers') => {
+    const value = exportsObj[name];
+    if (value === undefined) return [];
+    if (Array.isArray(value)) return value;
+    onInvalid(`${source}: the ${name} export must be an array.`);
+    return [];
+  };
+
+  const decorators = exported('decorators').map((entry, index): Decorator | null => {
+    if (typeof entry === 'function') return { kind: 'decorator', decorate: entry };
+    const provider = toProvider(entry);
+    if (!provider) onInvalid(`${source}: decorators[${index}] is not a decorator function or { component, props } entry.`);
+    return provider;
+  });
+  const providers = exported('providers').map((entry, index) => {
+    const provider = toProvider(entry);
+    if (!provider) onInvalid(`${source}: providers[${index}] is not a component or { component, props } entry.`);
+    return provider;
+  });
+  return [...decorators, ...providers.reverse()].filter(Boolean) as Decorator[];
+};
+
+/**
+ * Chains Storybook-style decorators around `render`, innermost first. The chain is built once,
+ * so re-renders update the decorated tree instead of remounting it; each level reads the story
+ * context passed to `renderDecorated` when it renders. A decorator may render `<Story args={...} />`
+ * to override args.
+ */
+export const chainDecorators = (
+  render: (args: Record<string, any>, context: Record<string, any>) => React.ReactNode,
+  decorators: StoryDecorator[]
+): React.ComponentType => {
+  let Current: React.ComponentType<any> = (override?: { args?: Record<string, any> }) => {
+    const context = React.useContext(DecoratorContext);
+    return render({ ...context.args, ...override?.args }, context) as React.ReactElement;
+  };
+  decorators.forEach((decorator) => {
+    const Inner = Current;
+    Current = () => decorator(Inner, React.useContext(DecoratorContext)) as React.ReactElement;
+  });
+  return Current;
+};
+
+/**
+ * Renders a decorator chain with its story context
+ */
+export const renderDecorated = (Chain: React.ComponentType, context: Record<string, any>) =>
+  React.createElement(DecoratorContext.Provider, { value: context }, React.createElement(Chain));
+
+const toStoryDecorator = (decorator: Decorator): StoryDecorator =>
+  decorator.kind === 'decorator'
+    ? decorator.decorate
+    : (Story) => React.createElement(decorator.component, decorator.props, React.createElement(Story));
+
+/**
+ * Wraps an element in the decorators, innermost first. `args` are the props it was
+ * rendered with, passed to Storybook-style decorators in their context.
+ */
+export const applyDecorators = (
+  element: React.ReactNode,
+  decorators: Decorator[],
+  args: Record<string, any> = {}
+): React.ReactNode => {
+  if (decorators.length === 0) return element;
+  const Chain = chainDecorators(() => element, decorators.map(toStoryDecorator));
+  return renderDecorated(Chain, { args, argTypes: {}, parameters: {}, globals: {}, viewMode: 'story', loaded: {} });
+};
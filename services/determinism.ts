@@ -0,0 +1,177 @@
+/**
+ * Determinism Service
+ *
+ * Makes renders reproducible. User modules receive a `Date` and `performance.now` frozen
+ * at a chosen instant, a seeded `Math.random`, and timers that only fire when the engine
+ * advances the virtual clock before a capture. The replacements are passed to module
+ * runners as parameters, so React and the engine keep the real clock.
+ */
+
+import { flushSync } from 'react-dom';
+import { DeterministicOptions } from '../types';
+import { TimeoutError } from './errors';
+
+/** Globals shadowed by runner parameters of the same names */
+export const CLOCK_GLOBALS = [
+  'Date',
+  'Math',
+  'performance',
+  'setTimeout',
+  'clearTimeout',
+  'setInterval',
+  'clearInterval',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+];
+
+/** Default virtual time timers are advanced by before each capture */
+export const DEFAULT_ADVANCE_MS = 5000;
+/** Timer callbacks run per advance before the rest are skipped, so tight intervals cannot stall a capture */
+const MAX_CALLBACKS_PER_ADVANCE = 10000;
+const FRAME_MS = 16;
+
+/**
+ * The real clock globals, in `CLOCK_GLOBALS` order
+ */
+export const getNativeClockGlobals = (): unknown[] => [
+  Date,
+  Math,
+  performance,
+  window.setTimeout.bind(window),
+  window.clearTimeout.bind(window),
+  window.setInterval.bind(window),
+  window.clearInterval.bind(window),
+  window.requestAnimationFrame.bind(window),
+  window.cancelAnimationFrame.bind(window),
+];
+
+/**
+ * Small, fast seeded PRNG (mulberry32) returning values in [0, 1)
+ */
+const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface VirtualTimer {
+  id: number;
+  at: number;
+  /** Repeat interval for setInterval timers */
+  interval: number | null;
+  run: () => void;
+}
+
+/**
+ * Creates a virtual clock starting at `options.time`. `globals` replaces the real clock
+ * globals for user modules; `advance` moves the clock forward and runs the timers that
+ * fall due, flushing React updates after each one.
+ */
+export const createVirtualClock = ({ time, seed }: DeterministicOptions) => {
+  const NativeDate = Date;
+  const timers = new Map<number, VirtualTimer>();
+  const failures: string[] = [];
+  let elapsed = 0;
+  let nextId = 1;
+  let skipped = 0;
+
+  const now = () => time + elapsed;
+
+  function VirtualDate(this: unknown, ...args: any[]) {
+    if (!new.target) return new NativeDate(now()).toString();
+    return args.length > 0 ? new (NativeDate as any)(...args) : new NativeDate(now());
+  }
+  VirtualDate.prototype = NativeDate.prototype;
+  Object.assign(VirtualDate, { now, parse: NativeDate.parse, UTC: NativeDate.UTC });
+
+  const virtualMath = Object.assign(Object.create(Math), { random: createSeededRandom(seed) });
+
+  const virtualPerformance = new Proxy(performance, {
+    get: (target, property) => {
+      if (property === 'now') return () => elapsed;
+      if (property === 'timeOrigin') return time;
+      const value = Reflect.get(target, property);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+
+  const schedule = (callback: unknown, delay: unknown, args: unknown[], repeat: boolean) => {
+    const id = nextId++;
+    if (typeof callback !== 'function') return id;
+    const wait = Math.max(0, Number(delay) || 0);
+    timers.set(id, {
+      id,
+      at: elapsed + wait,
+      interval: repeat ? Math.max(1, wait) : null,
+      run: () => callback(...args),
+    });
+    return id;
+  };
+  const cancel = (id: unknown) => {
+    timers.delete(Number(id));
+  };
+
+  const globals: unknown[] = [
+    VirtualDate,
+    virtualMath,
+    virtualPerformance,
+    (callback: unknown, delay?: unknown, ...args: unknown[]) => schedule(callback, delay, args, false),
+    cancel,
+    (callback: unknown, delay?: unknown, ...args: unknown[]) => schedule(callback, delay, args, true),
+    cancel,
+    (callback: unknown) => schedule(
+      typeof callback === 'function' ? () => callback(elapsed) : null,
+      FRAME_MS,
+      [],
+      false
+    ),
+    cancel,
+  ];
+
+  const nextDue = (until: number) => {
+    let due: VirtualTimer | null = null;
+    timers.forEach((timer) => {
+      if (timer.at <= until && (!due || timer.at < due.at || (timer.at === due.at && timer.id < due.id))) {
+        due = timer;
+      }
+    });
+    return due as VirtualTimer | null;
+  };
+
+  return {
+    globals,
+    /** Moves the clock forward by `ms`, running due timers in order */
+    advance: (ms: number) => {
+      const target = elapsed + Math.max(0, ms);
+      let ran = 0;
+      for (let timer = nextDue(target); timer; timer = nextDue(target)) {
+        if (ran >= MAX_CALLBACKS_PER_ADVANCE) {
+          skipped += 1;
+          break;
+        }
+        elapsed = timer.at;
+        if (timer.interval === null) timers.delete(timer.id);
+        else timer.at += timer.interval;
+        ran += 1;
+        try {
+          flushSync(timer.run);
+        } catch (err: any) {
+          if (err instanceof TimeoutError) throw err;
+          if (!failures.includes(err?.message || String(err))) failures.push(err?.message || String(err));
+        }
+      }
+      elapsed = target;
+    },
+    /** Errors thrown by timer callbacks, deduplicated */
+    failures: () => [...failures],
+    /** Number of advances that hit the callback limit */
+    skipped: () => skipped,
+  };
+};
+
+export type VirtualClock = ReturnType<typeof createVirtualClock>;
@@ -5,6 +5,7 @@
  * with proper z-ordering and deduplication.
  */
 
+import { EntranceAnimation } from '../types';
 import { buildStackingContextTree, getPaintOrder } from './stackingContext';
 import { getContainerInfo, calculatePrecisePosition, PreciseRect, ContainerInfo } from './positionCalculator';
 import { createTextExtractionContext, extractTextLines, TextElement } from './textExtractor';
@@ -12,6 +13,7 @@ import { createImageExtractionContext, extractAllImages, extractSvgElement, extr
 import { handleGradient } from './gradientHandler';
 import { extractBorder, extractShadow, getEffectiveRadius, BorderInfo, ShadowInfo } from './visualEffects';
 import { rgbToHex } from './colorUtils';
+import { createEntranceResolver } from './entranceAnimations';
 
 export interface ShapeElement {
     id: string;
@@ -27,7 +29,10 @@ export interface ShapeElement {
     zIndex: number;
 }
 
-export type LayoutItem = TextElement | ShapeElement | ExtractedImage;
+export type LayoutItem = (TextElement | ShapeElement | ExtractedImage) & {
+    /** Entrance effect of the animated element the item was drawn from */
+    animation?: EntranceAnimation;
+};
 
 export interface EnhancedLayoutResult {
     elements: LayoutItem[];
@@ -212,6 +217,13 @@ export const walkDom = async (container: HTMLElement): Promise<EnhancedLayoutRes
     // Sort by z-index to maintain proper layering
     elements.sort((a, b) => a.zIndex - b.zIndex);
 
+    // Items inherit the entrance effect of their element or its nearest animated ancestor
+    const resolveEntrance = createEntranceResolver(container, styleCache);
+    elements.forEach((item) => {
+        const animation = resolveEntrance(paintOrder[item.zIndex]);
+        if (animation) item.animation = animation;
+    });
+
     // Calculate page count based on content height
     const pageCount = Math.max(1, Math.ceil(contentHeight / containerInfo.height));
 
@@ -0,0 +1,165 @@
+/**
+ * Entrance Animation Detection
+ *
+ * Reads the entrance effect of stage elements so PPTX exports can replay it. Authors can
+ * mark elements with `data-animate="fade|zoom|slide[-left|-right|-top|-bottom]"` plus
+ * optional `data-order`, `data-delay` and `data-duration` (milliseconds); otherwise CSS
+ * animations are classified from the first keyframe of their `@keyframes` rule.
+ */
+
+import { EntranceAnimation } from '../types';
+
+type Direction = NonNullable<EntranceAnimation['direction']>;
+type EntranceEffect = Omit<EntranceAnimation, 'group'>;
+
+const DEFAULT_DURATION_MS = 500;
+const DIRECTIONS: Direction[] = ['left', 'right', 'top', 'bottom'];
+
+/**
+ * Parses a CSS time list entry (`0.5s`, `200ms`) into milliseconds
+ */
+const parseCssTime = (value: string) => {
+  const first = value.split(',')[0].trim();
+  const amount = parseFloat(first);
+  if (Number.isNaN(amount)) return 0;
+  return first.endsWith('ms') ? amount : amount * 1000;
+};
+
+const parseMs = (value: string | undefined, fallback: number) => {
+  const amount = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(amount) && amount >= 0 ? amount : fallback;
+};
+
+const parseAuthoredEffect = (element: HTMLElement): EntranceEffect | null => {
+  const value = element.dataset.animate?.trim().toLowerCase();
+  if (!value) return null;
+  const [effect, side] = value.split('-') as [string, string | undefined];
+  if (effect !== 'fade' && effect !== 'slide' && effect !== 'zoom') return null;
+  return {
+    effect,
+    ...(effect === 'slide' ? { direction: DIRECTIONS.includes(side as Direction) ? side as Direction : 'bottom' } : {}),
+    order: parseMs(element.dataset.order, 0),
+    delayMs: parseMs(element.dataset.delay, 0),
+    durationMs: parseMs(element.dataset.duration, DEFAULT_DURATION_MS),
+  };
+};
+
+const collectKeyframes = (rules: CSSRuleList, found: Map<string, CSSKeyframesRule>) => {
+  Array.from(rules).forEach((rule) => {
+    if (rule instanceof CSSKeyframesRule) {
+      found.set(rule.name, rule);
+    } else if ('cssRules' in rule) {
+      // Keyframes nested in @media, @supports or @layer blocks
+      collectKeyframes((rule as CSSGroupingRule).cssRules, found);
+    }
+  });
+};
+
+/**
+ * Classifies the starting keyframe of an animation: scaled down is a zoom, translated is a
+ * slide from that side, transparent is a fade. Anything else is not an entrance.
+ */
+const classifyKeyframe = (style: CSSStyleDeclaration): Pick<EntranceEffect, 'effect' | 'direction'> | null => {
+  const { transform } = style;
+  const scaleFunction = /scale[XY]?(?:3d)?\(\s*(-?[\d.]+)/.exec(transform);
+  const scale = scaleFunction ? parseFloat(scaleFunction[1]) : parseFloat(style.getPropertyValue('scale'));
+  if (scale < 1) return { effect: 'zoom' };
+
+  let x = 0;
+  let y = 0;
+  const translate = /translate(X|Y|3d)?\(\s*(-?[\d.]+)[^,)]*(?:,\s*(-?[\d.]+))?/.exec(transform);
+  if (translate?.[1] === 'Y') {
+    y = parseFloat(translate[2]);
+  } else if (translate) {
+    x = parseFloat(translate[2]);
+    y = parseFloat(translate[3] ?? '0');
+  } else {
+    const [tx = '0', ty = '0'] = style.getPropertyValue('translate').trim().split(/\s+/);
+    x = parseFloat(tx) || 0;
+    y = parseFloat(ty) || 0;
+  }
+  if (x !== 0 || y !== 0) {
+    const direction: Direction = Math.abs(x) >= Math.abs(y) ? (x < 0 ? 'left' : 'right') : (y < 0 ? 'top' : 'bottom');
+    return { effect: 'slide', direction };
+  }
+
+  const opacity = parseFloat(style.opacity);
+  if (opacity < 1) return { effect: 'fade' };
+  return null;
+};
+
+/**
+ * Creates a reader returning the entrance effect of an element, or null. `@keyframes`
+ * rules are looked up once per document or shadow root.
+ */
+const createEntranceReader = () => {
+  const keyframesByRoot = new Map<Node, Map<string, CSSKeyframesRule>>();
+
+  const findKeyframes = (element: HTMLElement, name: string) => {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    let found = keyframesByRoot.get(root);
+    if (!found) {
+      found = new Map();
+      const sheets = [...Array.from(document.styleSheets), ...(root !== document ? Array.from(root.styleSheets ?? []) : [])];
+      sheets.forEach((sheet) => {
+        try {
+          collectKeyframes(sheet.cssRules, found!);
+        } catch {
+          // Cross-origin sheets cannot be read
+        }
+      });
+      keyframesByRoot.set(root, found);
+    }
+    return found.get(name) ?? null;
+  };
+
+  const readCssEffect = (element: HTMLElement, styles: CSSStyleDeclaration): EntranceEffect | null => {
+    const name = styles.animationName.split(',')[0].trim();
+    if (!name || name === 'none') return null;
+    // Looping animations (spinners, pulses) are not entrances
+    if (styles.animationIterationCount.split(',')[0].trim() === 'infinite') return null;
+    const keyframes = findKeyframes(element, name);
+    const start = keyframes?.findRule('0%') ?? keyframes?.findRule('from');
+    const kind = start ? classifyKeyframe(start.style) : null;
+    if (!kind) return null;
+    return {
+      ...kind,
+      order: parseMs(element.dataset.order, 0),
+      delayMs: Math.max(0, parseCssTime(styles.animationDelay)),
+      durationMs: parseCssTime(styles.animationDuration) || DEFAULT_DURATION_MS,
+    };
+  };
+
+  return (element: HTMLElement, styles: CSSStyleDeclaration = window.getComputedStyle(element)) =>
+    parseAuthoredEffect(element) ?? readCssEffect(element, styles);
+};
+
+/**
+ * Creates a resolver returning the entrance effect of an element, taken from the element
+ * itself or its nearest animated ancestor below `container`. Elements drawn from the same
+ * animated ancestor share a group number.
+ */
+export const createEntranceResolver = (
+  container: HTMLElement,
+  styleCache: Map<HTMLElement, CSSStyleDeclaration> = new Map()
+) => {
+  const readEffect = createEntranceReader();
+  const own = new Map<HTMLElement, EntranceAnimation | null>();
+  let groups = 0;
+
+  const ownEffect = (element: HTMLElement) => {
+    if (!own.has(element)) {
+      const effect = readEffect(element, styleCache.get(element));
+      own.set(element, effect ? { ...effect, group: ++groups } : null);
+    }
+    return own.get(element)!;
+  };
+
+  return (element: HTMLElement | undefined): EntranceAnimation | null => {
+    for (let node = element ?? null; node && node !== container; node = node.parentElement) {
+      const effect = ownEffect(node);
+      if (effect) return effect;
+    }
+    return null;
+  };
+};
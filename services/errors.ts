@@ -0,0 +1,150 @@
+/**
+ * Errors Service
+ *
+ * Typed errors thrown by the layout engine and generators. Each carries an
+ * `ErrorInfo` code and the structured fields the error card displays; `toErrorInfo`
+ * turns any thrown value into the `ErrorInfo` shown to the user.
+ */
+
+import { ErrorCode, ErrorInfo, SourceLocation, TypeDiagnostic } from '../types';
+
+const SUGGESTIONS: Record<ErrorCode, string> = {
+  'transpile-error': 'Fix the syntax error at the highlighted line; the file must be valid TSX, TS, JSX or JS.',
+  'module-not-found': 'Upload the project folder or ZIP that contains these modules, or remove the imports. Unresolved imports are replaced with placeholders.',
+  'no-component-export': 'Export a React component as the default export or as a PascalCase named export.',
+  'render-exception': 'The component threw while running. Check the highlighted line and the props or data it expects.',
+  'type-check-failed': 'Fix the type errors below, or turn off strict type check to render anyway.',
+  timeout: 'The component did not finish in time. Look for infinite loops, or effects and timers that never settle.',
+  'image-load-failed': 'An image could not be loaded. Check that image files are valid, or turn off the raster fallback.',
+  'export-failed': 'Try again, or pick a lower export quality for very large decks.',
+  'invalid-input': 'Check the selected file and try again.',
+  'render-failed': 'Ensure the file exports a valid React component and avoid imports that require network access.',
+};
+
+/**
+ * Base class for errors with a known cause. Subclasses fill in the structured fields.
+ */
+export class ConversionError extends Error {
+  code: ErrorCode;
+  suggestion?: string;
+  location?: SourceLocation;
+  moduleName?: string;
+  componentStack?: string;
+  diagnostics?: TypeDiagnostic[];
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ConversionError';
+    this.code = code;
+  }
+}
+
+/**
+ * The TypeScript compiler could not parse a module
+ */
+export class TranspileError extends ConversionError {
+  constructor(message: string, location?: SourceLocation, suggestion?: string) {
+    super('transpile-error', message);
+    this.name = 'TranspileError';
+    this.location = location;
+    this.suggestion = suggestion;
+  }
+}
+
+/**
+ * Code failed while imports were unresolved; the placeholders are the likely cause
+ */
+export class ModuleNotFoundError extends ConversionError {
+  modules: string[];
+
+  constructor(modules: string[], cause: Error) {
+    super('module-not-found', `${cause.message}\nUnresolved import${modules.length === 1 ? '' : 's'}: ${modules.join(', ')}`);
+    this.name = 'ModuleNotFoundError';
+    this.modules = modules;
+    this.moduleName = modules[0];
+    if (cause instanceof ConversionError) {
+      this.location = cause.location;
+      this.componentStack = cause.componentStack;
+    }
+  }
+}
+
+/**
+ * The entry module has nothing to render, or the requested export does not exist
+ */
+export class NoComponentExportError extends ConversionError {
+  available: string[];
+
+  constructor(message: string, available: string[] = [], suggestion?: string) {
+    super('no-component-export', message);
+    this.name = 'NoComponentExportError';
+    this.available = available;
+    this.suggestion = suggestion;
+  }
+}
+
+/**
+ * A render or capture step did not finish within its time limit
+ */
+export class TimeoutError extends ConversionError {
+  constructor(message: string) {
+    super('timeout', message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * An image needed for the export could not be loaded or decoded
+ */
+export class ImageLoadError extends ConversionError {
+  constructor(message: string) {
+    super('image-load-failed', message);
+    this.name = 'ImageLoadError';
+  }
+}
+
+/**
+ * The PDF or PPTX file could not be written
+ */
+export class ExportError extends ConversionError {
+  constructor(format: string, cause: unknown) {
+    super('export-failed', `Failed to write the ${format} file: ${(cause as Error)?.message || cause}`);
+    this.name = 'ExportError';
+  }
+}
+
+/**
+ * Input typed or uploaded by the user, such as props JSON, could not be read
+ */
+export class InvalidInputError extends ConversionError {
+  constructor(message: string, suggestion?: string) {
+    super('invalid-input', message);
+    this.name = 'InvalidInputError';
+    this.suggestion = suggestion;
+  }
+}
+
+/**
+ * Maps a thrown value to the error card model. Untyped errors get the fallback code.
+ */
+export const toErrorInfo = (err: unknown, fallbackCode: ErrorCode, fallbackMessage = 'Something went wrong.'): ErrorInfo => {
+  const message = err instanceof Error ? err.message || fallbackMessage : typeof err === 'string' ? err : fallbackMessage;
+  if (!(err instanceof ConversionError)) {
+    return {
+      code: fallbackCode,
+      message,
+      suggestion: SUGGESTIONS[fallbackCode],
+      canRetry: fallbackCode !== 'invalid-input',
+    };
+  }
+  return {
+    code: err.code,
+    message,
+    suggestion: err.suggestion || SUGGESTIONS[err.code],
+    canRetry: err.code !== 'invalid-input',
+    location: err.location,
+    moduleName: err.moduleName,
+    componentStack: err.componentStack,
+    diagnostics: err.diagnostics,
+  };
+};
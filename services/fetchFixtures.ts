@@ -0,0 +1,337 @@
+/**
+ * Fetch Fixtures Service
+ *
+ * The render sandbox has no network, so `fetch` and `XMLHttpRequest` calls made by
+ * components are answered from fixture files in the project instead: routes listed in
+ * a `fixtures.json` map, then files under a `__fixtures__/` folder mirroring the request
+ * path. Requests without a fixture get a 404 and are reported in diagnostics.
+ */
+
+import { ProjectContext } from '../types';
+import { isPlainObject } from './objectUtils';
+import { isVendoredPath } from './packageResolver';
+
+type ProjectFiles = ProjectContext['files'];
+
+interface FixtureRoute {
+  /** Upper-case method, or null to match any method */
+  method: string | null;
+  /** Absolute URL or path, with or without a query string */
+  target: string;
+  status: number;
+  headers: Record<string, string>;
+  /** Project file to serve; takes precedence over `body` */
+  file?: string;
+  body?: unknown;
+}
+
+export interface FixtureSet {
+  routes: FixtureRoute[];
+  /** `__fixtures__` folders, shallowest first */
+  folders: string[];
+  /** Path of the route map, when the project has one */
+  mapPath: string | null;
+}
+
+/** Keys of a route entry that describe a response rather than a JSON body */
+const RESPONSE_KEYS = ['status', 'headers', 'body', 'file'];
+const FIXTURES_FOLDER = '__fixtures__';
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  html: 'text/html',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  md: 'text/markdown',
+};
+
+const dirname = (filePath: string) => filePath.split('/').slice(0, -1).join('/');
+
+const joinPath = (base: string, next: string) => {
+  const segments: string[] = [];
+  `${base}/${next}`.split('/').forEach((segment) => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return `/${segments.join('/')}`;
+};
+
+/**
+ * Parses one `fixtures.json` entry. Keys are `[METHOD ]<path or URL>`; a string value names
+ * a project file, an object with `status`, `headers`, `body` or `file` describes the
+ * response, and any other value is served as the JSON body.
+ */
+const parseRoute = (key: string, value: unknown, mapDir: string): FixtureRoute => {
+  const match = /^([A-Za-z]+)\s+(\S+)$/.exec(key.trim());
+  const route: FixtureRoute = {
+    method: match ? match[1].toUpperCase() : null,
+    target: match ? match[2] : key.trim(),
+    status: 200,
+    headers: {},
+  };
+  if (typeof value === 'string') {
+    route.file = value.startsWith('/') ? joinPath('', value) : joinPath(mapDir, value);
+  } else if (isPlainObject(value) && Object.keys(value).some((name) => RESPONSE_KEYS.includes(name))) {
+    route.status = Number(value.status) || 200;
+    if (isPlainObject(value.headers)) {
+      Object.entries(value.headers).forEach(([name, header]) => { route.headers[name] = String(header); });
+    }
+    if (typeof value.file === 'string') route.file = joinPath(mapDir, value.file);
+    else route.body = value.body;
+  } else {
+    route.body = value;
+  }
+  return route;
+};
+
+/**
+ * Collects the fixture routes and folders of a project. A malformed route map is
+ * reported through `onWarning` and skipped.
+ */
+export const loadFixtures = (files: ProjectFiles, onWarning: (message: string) => void): FixtureSet => {
+  const paths = Object.keys(files)
+    .filter((path) => !isVendoredPath(path))
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  const mapPath = paths.find((path) => path.split('/').pop() === 'fixtures.json' && files[path].kind === 'text') || null;
+  const folders = Array.from(new Set(paths
+    .map((path) => path.split('/'))
+    .filter((segments) => segments.includes(FIXTURES_FOLDER))
+    .map((segments) => segments.slice(0, segments.indexOf(FIXTURES_FOLDER) + 1).join('/'))));
+
+  let routes: FixtureRoute[] = [];
+  if (mapPath) {
+    try {
+      const map = JSON.parse(files[mapPath].content);
+      if (!isPlainObject(map)) throw new Error('expected an object mapping routes to responses');
+      routes = Object.entries(map).map(([key, value]) => parseRoute(key, value, dirname(mapPath)));
+    } catch (err: any) {
+      onWarning(`Failed to load ${mapPath.replace(/^\//, '')}: ${err?.message || err}. Its routes are ignored.`);
+    }
+  }
+  return { routes, folders, mapPath };
+};
+
+const contentTypeFor = (filePath: string) =>
+  CONTENT_TYPES[filePath.split('.').pop()?.toLowerCase() || ''] || 'application/octet-stream';
+
+const decodeDataUrl = (dataUrl: string): Uint8Array<ArrayBuffer> => {
+  const [meta, data = ''] = dataUrl.split(',', 2);
+  const text = meta.endsWith(';base64') ? atob(data) : decodeURIComponent(data);
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Builds the response for a project file, or null when the file does not exist
+ */
+const fileResponse = (files: ProjectFiles, filePath: string, status = 200, headers: Record<string, string> = {}) => {
+  const file = files[filePath];
+  if (!file) return null;
+  const body = NULL_BODY_STATUSES.includes(status) ? null : file.kind === 'binary' ? decodeDataUrl(file.content) : file.content;
+  return new Response(body, {
+    status,
+    headers: { 'Content-Type': file.mime || contentTypeFor(filePath), ...headers },
+  });
+};
+
+const routeMatches = (route: FixtureRoute, method: string, url: URL) => {
+  if (route.method && route.method !== method) return false;
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(route.target)) {
+    return route.target === url.href.replace(/#.*$/, '') || route.target === `${url.origin}${url.pathname}`;
+  }
+  const target = route.target.startsWith('/') ? route.target : `/${route.target}`;
+  return target === `${url.pathname}${url.search}` || target === url.pathname;
+};
+
+/**
+ * Answers a request from the fixtures, or returns null when none matches
+ */
+export const respondWithFixture = (fixtures: FixtureSet, files: ProjectFiles, method: string, url: URL): Response | null => {
+  const route = fixtures.routes.find((candidate) => routeMatches(candidate, method, url));
+  if (route?.file) {
+    return fileResponse(files, route.file, route.status, route.headers);
+  }
+  if (route) {
+    const isText = typeof route.body === 'string';
+    const body = NULL_BODY_STATUSES.includes(route.status) || route.body === undefined
+      ? null
+      : isText ? route.body as string : JSON.stringify(route.body);
+    return new Response(body, {
+      status: route.status,
+      headers: { 'Content-Type': isText ? 'text/plain' : 'application/json', ...route.headers },
+    });
+  }
+
+  const requestPath = decodeURIComponent(url.pathname).replace(/\/$/, '');
+  for (const folder of fixtures.folders) {
+    const base = joinPath(folder, requestPath);
+    const candidates = [base, `${base}.json`, `${base}/index.json`];
+    const filePath = candidates.find((candidate) => files[candidate]);
+    if (filePath) return fileResponse(files, filePath);
+  }
+  return null;
+};
+
+const nativeFetch = window.fetch;
+const NativeXMLHttpRequest = window.XMLHttpRequest;
+
+/**
+ * Replaces `fetch` and `XMLHttpRequest` with versions served from the fixtures and returns
+ * a function that restores the originals. Data and blob URLs still load normally.
+ */
+export const installFetchFixtures = (
+  fixtures: FixtureSet,
+  files: ProjectFiles,
+  callbacks: { onServed: () => void; onUnmatched: (request: string) => void }
+) => {
+  const serve = (method: string, input: string): Response | null => {
+    const url = new URL(input, window.location.href);
+    if (url.protocol === 'data:' || url.protocol === 'blob:') return null;
+    const response = respondWithFixture(fixtures, files, method, url);
+    if (response) {
+      callbacks.onServed();
+      return response;
+    }
+    const sameOrigin = url.origin === window.location.origin;
+    callbacks.onUnmatched(`${method} ${sameOrigin ? `${url.pathname}${url.search}` : url.href}`);
+    return new Response(null, { status: 404, statusText: 'No fixture' });
+  };
+
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const method = init?.method || (input instanceof Request ? input.method : 'GET');
+    return serve(method.toUpperCase(), url) ?? nativeFetch(input, init);
+  };
+  window.XMLHttpRequest = createFixtureXhr(serve);
+
+  return () => {
+    window.fetch = nativeFetch;
+    window.XMLHttpRequest = NativeXMLHttpRequest;
+  };
+};
+
+/**
+ * Builds an `XMLHttpRequest` stand-in that answers from `serve`, covering the parts of
+ * the API data-loading code relies on: events, headers and the response types
+ */
+const createFixtureXhr = (serve: (method: string, url: string) => Response | null) => {
+  class FixtureXMLHttpRequest extends EventTarget {
+    static readonly UNSENT = 0;
+    static readonly OPENED = 1;
+    static readonly HEADERS_RECEIVED = 2;
+    static readonly LOADING = 3;
+    static readonly DONE = 4;
+
+    readyState = 0;
+    status = 0;
+    statusText = '';
+    response: any = null;
+    responseText = '';
+    responseType: XMLHttpRequestResponseType = '';
+    responseURL = '';
+    timeout = 0;
+    withCredentials = false;
+    upload = new EventTarget();
+    onreadystatechange: ((event: Event) => void) | null = null;
+    onloadstart: ((event: Event) => void) | null = null;
+    onload: ((event: Event) => void) | null = null;
+    onloadend: ((event: Event) => void) | null = null;
+    onerror: ((event: Event) => void) | null = null;
+    onabort: ((event: Event) => void) | null = null;
+    ontimeout: ((event: Event) => void) | null = null;
+    onprogress: ((event: Event) => void) | null = null;
+
+    private method = 'GET';
+    private url = '';
+    private headers = new Headers();
+    private aborted = false;
+
+    open(method: string, url: string | URL) {
+      this.method = method.toUpperCase();
+      this.url = String(url);
+      this.aborted = false;
+      this.setReadyState(1);
+    }
+
+    setRequestHeader() {}
+
+    overrideMimeType() {}
+
+    getResponseHeader(name: string) {
+      return this.readyState >= 2 ? this.headers.get(name) : null;
+    }
+
+    getAllResponseHeaders() {
+      if (this.readyState < 2) return '';
+      return Array.from(this.headers.entries()).map(([name, value]) => `${name}: ${value}\r\n`).join('');
+    }
+
+    abort() {
+      this.aborted = true;
+      this.emit('abort');
+      this.emit('loadend');
+    }
+
+    send() {
+      const response = serve(this.method, this.url);
+      this.emit('loadstart');
+      void this.complete(response);
+    }
+
+    private async complete(response: Response | null) {
+      if (!response) {
+        // Data and blob URLs are not network requests; read them through fetch
+        response = await nativeFetch(this.url).catch(() => null);
+      }
+      if (this.aborted) return;
+      if (!response) {
+        this.setReadyState(4);
+        this.emit('error');
+        this.emit('loadend');
+        return;
+      }
+      this.status = response.status;
+      this.statusText = response.statusText;
+      this.headers = response.headers;
+      this.responseURL = new URL(this.url, window.location.href).href;
+      this.setReadyState(2);
+      this.setReadyState(3);
+      if (this.responseType === 'arraybuffer') {
+        this.response = await response.arrayBuffer();
+      } else if (this.responseType === 'blob') {
+        this.response = await response.blob();
+      } else {
+        this.responseText = await response.text();
+        if (this.responseType === 'json') {
+          try {
+            this.response = JSON.parse(this.responseText);
+          } catch {
+            this.response = null;
+          }
+        } else {
+          this.response = this.responseText;
+        }
+      }
+      if (this.aborted) return;
+      this.setReadyState(4);
+      this.emit('load');
+      this.emit('loadend');
+    }
+
+    private setReadyState(state: number) {
+      this.readyState = state;
+      this.emit('readystatechange');
+    }
+
+    private emit(type: string) {
+      const event = new Event(type);
+      this.dispatchEvent(event);
+      (this as any)[`on${type}`]?.call(this, event);
+    }
+  }
+
+  return FixtureXMLHttpRequest as unknown as typeof XMLHttpRequest;
+};
@@ -8,30 +8,19 @@
 
 import jsPDF from 'jspdf';
 import PptxGenJS from 'pptxgenjs';
-import { DocumentLayout, PageLayout, LayoutElement, ExportOptions } from '../types';
+import { DocumentLayout, PageLayout, LayoutElement, ExportOptions, ExportFormat, EntranceAnimation } from '../types';
 import { rasterizeAllPages } from './rasterizer';
+import { ExportError } from './errors';
 import { getJsPDFFont, getPptxFont } from './fontMapper';
 import {
   pxToPointsPDF,
   pxToPointsPPTX,
   pxToMM as pxToMm,
   calculateBaselineOffset,
-  PDF_DIMENSIONS,
-  PPTX_DIMENSIONS,
 } from './fontSizeConverter';
-
-// PDF Constants (A4 Landscape)
-const PDF_W = PDF_DIMENSIONS.A4_LANDSCAPE.width; // 297 mm
-const PDF_H = PDF_DIMENSIONS.A4_LANDSCAPE.height; // 210 mm
-
-// PPTX Constants (16:9)
-const PPTX_W = PPTX_DIMENSIONS.STANDARD_16_9.width; // 10 inches
-const PPTX_H = PPTX_DIMENSIONS.STANDARD_16_9.height; // 5.625 inches
-
-// Conversion helpers
-const percentToMm = (percent: number, dimension: number): number => (percent / 100) * dimension;
-const percentToInches = (percent: number, dimension: number): number => (percent / 100) * dimension;
-const pxToPoints = (px: number): number => px * 0.75;
+import { PageFrame, resolvePageFrame, toPageRect } from './pageSizes';
+import { DEFAULT_STAGE_SIZE } from './stageSize';
+import { addEntranceAnimations, animatedObjectName } from './pptxAnimations';
 
 type ProgressCallback = (percent: number, message?: string) => void;
 
@@ -49,6 +38,8 @@ const QUALITY_PRESETS: Record<'draft' | 'standard' | 'high', QualityPreset> = {
   high: { imageScale: 1, imageQuality: 1, compression: 'SLOW', precision: 16, compressPdf: false },
 };
 
+const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
 const preparedImageCache = new Map<string, Promise<{ data: string; format: 'PNG' | 'JPEG' }>>();
 const MAX_PREPARED_IMAGE_CACHE = 24;
 
@@ -130,6 +121,29 @@ const prepareImageForQuality = async (
   return task;
 };
 
+/**
+ * Writes the finished document, reporting failures as export errors
+ */
+const saveExport = async (format: ExportFormat, save: () => unknown) => {
+  try {
+    await save();
+  } catch (err) {
+    throw new ExportError(format, err);
+  }
+};
+
+/**
+ * Offers a generated file for download
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
 /**
  * Generates a PDF file from the document layout
  */
@@ -140,36 +154,44 @@ export const generatePDF = async (
 ) => {
   const quality = options.quality || 'standard';
   const preset = QUALITY_PRESETS[quality];
+  const frame = resolvePageFrame('PDF', options, layout.stage ?? DEFAULT_STAGE_SIZE);
+  const { page: pageSize, box } = frame;
+  const docOptions = {
+    orientation: pageSize.width > pageSize.height ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: [pageSize.width, pageSize.height],
+    compressPdf: preset.compressPdf,
+    precision: preset.precision,
+  };
 
   if (options.rasterize && layout.snapshot) {
     const scale = quality === 'high' ? 2 : quality === 'draft' ? 1 : 1.5;
-    const images = await rasterizeAllPages(layout.snapshot, layout.pages.length, scale);
-    const doc = new jsPDF({
-      orientation: 'landscape',
-      unit: 'mm',
-      format: 'a4',
-      compressPdf: preset.compressPdf,
-      precision: preset.precision,
-    } as any);
+    const images = await rasterizeAllPages(
+      layout.snapshot,
+      layout.pages.length,
+      scale,
+      layout.pages.map((page) => page.snapshot)
+    );
+    const doc = new jsPDF(docOptions as any);
 
     images.forEach((dataUrl, index) => {
       if (index > 0) doc.addPage();
-      doc.addImage(dataUrl, 'PNG', 0, 0, PDF_W, PDF_H, undefined, preset.compression);
+      const bgColor = layout.pages[index]?.bgColor;
+      if (bgColor && bgColor !== '#ffffff') {
+        const { r, g, b } = hexToRgb(bgColor);
+        doc.setFillColor(r, g, b);
+        doc.rect(0, 0, pageSize.width, pageSize.height, 'F');
+      }
+      doc.addImage(dataUrl, 'PNG', box.x, box.y, box.width, box.height, undefined, preset.compression);
       onProgress?.(Math.min(98, Math.round(((index + 1) / images.length) * 90) + 8), 'Rasterizing PDF pages');
     });
 
-    doc.save(`${sanitizeFilename(layout.title)}.pdf`);
+    await saveExport('PDF', () => doc.save(`${sanitizeFilename(layout.title)}.pdf`));
     onProgress?.(100, 'PDF saved locally');
     return;
   }
 
-  const doc = new jsPDF({
-    orientation: 'landscape',
-    unit: 'mm',
-    format: 'a4',
-    compressPdf: preset.compressPdf,
-    precision: preset.precision,
-  } as any);
+  const doc = new jsPDF(docOptions as any);
 
   const totalElements = layout.pages.reduce((sum, page) => sum + page.elements.length, 0) || 1;
   let processed = 0;
@@ -182,7 +204,7 @@ export const generatePDF = async (
     if (page.bgColor && page.bgColor !== '#ffffff') {
       const { r, g, b } = hexToRgb(page.bgColor);
       doc.setFillColor(r, g, b);
-      doc.rect(0, 0, PDF_W, PDF_H, 'F');
+      doc.rect(0, 0, pageSize.width, pageSize.height, 'F');
     }
 
     // Sort elements by their implicit z-order (shapes first, then text)
@@ -190,14 +212,14 @@ export const generatePDF = async (
 
     // Render each element
     for (const el of sortedElements) {
-      await renderPdfElement(doc, el, preset);
+      await renderPdfElement(doc, el, preset, frame);
       processed += 1;
       const percent = Math.min(98, Math.round((processed / totalElements) * 90) + 8);
       onProgress?.(percent, 'Rendering PDF content');
     }
   }
 
-  doc.save(`${sanitizeFilename(layout.title)}.pdf`);
+  await saveExport('PDF', () => doc.save(`${sanitizeFilename(layout.title)}.pdf`));
   onProgress?.(100, 'PDF saved locally');
 };
 
@@ -221,11 +243,8 @@ const sortElementsForRendering = (elements: LayoutElement[]): LayoutElement[] =>
 /**
  * Renders a single element to PDF
  */
-const renderPdfElement = async (doc: jsPDF, el: LayoutElement, preset: QualityPreset) => {
-  const x = percentToMm(el.x, PDF_W);
-  const y = percentToMm(el.y, PDF_H);
-  const w = percentToMm(el.w, PDF_W);
-  const h = percentToMm(el.h, PDF_H);
+const renderPdfElement = async (doc: jsPDF, el: LayoutElement, preset: QualityPreset, frame: PageFrame) => {
+  const { x, y, width: w, height: h } = toPageRect(frame.box, el);
 
   // Handle image elements
   if (el.imageData) {
@@ -241,13 +260,13 @@ const renderPdfElement = async (doc: jsPDF, el: LayoutElement, preset: QualityPr
 
   // Handle shapes (rect/circle)
   if (el.type === 'rect' || el.type === 'circle') {
-    renderPdfShape(doc, el, x, y, w, h);
+    renderPdfShape(doc, el, x, y, w, h, frame.scale);
     return;
   }
 
   // Handle text
   if (el.type === 'text' && el.text) {
-    renderPdfText(doc, el, x, y, w, h);
+    renderPdfText(doc, el, x, y, w, h, frame.scale);
     return;
   }
 
@@ -255,7 +274,7 @@ const renderPdfElement = async (doc: jsPDF, el: LayoutElement, preset: QualityPr
   if (el.type === 'line') {
     const { r, g, b } = hexToRgb(el.color || '#000000');
     doc.setDrawColor(r, g, b);
-    doc.setLineWidth(0.5);
+    doc.setLineWidth(0.5 * frame.scale);
     doc.line(x, y, x + w, y + h);
   }
 };
@@ -269,7 +288,8 @@ const renderPdfShape = (
   x: number,
   y: number,
   w: number,
-  h: number
+  h: number,
+  scale = 1
 ) => {
   const opacity = el.opacity ?? 1;
   if (opacity === 0) return;
@@ -285,7 +305,7 @@ const renderPdfShape = (
   if (hasStroke) {
     const { r, g, b } = hexToRgb(el.color);
     doc.setDrawColor(r, g, b);
-    const strokeWidth = el.strokeWidthPx ? pxToMm(el.strokeWidthPx) : 0.3;
+    const strokeWidth = (el.strokeWidthPx ? pxToMm(el.strokeWidthPx) : 0.3) * scale;
     doc.setLineWidth(strokeWidth);
 
     if (el.borderStyle === 'dashed') {
@@ -301,7 +321,7 @@ const renderPdfShape = (
   const drawMode = el.bgColor && hasStroke ? 'FD' : el.bgColor ? 'F' : 'S';
 
   if (el.type === 'rect') {
-    const radius = el.radius ? Math.min(pxToMm(el.radius), 10) : 0; // px to mm, max 10mm
+    const radius = el.radius ? Math.min(pxToMm(el.radius) * scale, 10) : 0; // px to mm, max 10mm
     if (radius > 0) {
       doc.roundedRect(x, y, w, h, radius, radius, drawMode);
     } else {
@@ -326,14 +346,15 @@ const renderPdfText = (
   x: number,
   y: number,
   w: number,
-  h: number
+  h: number,
+  scale = 1
 ) => {
   const { r, g, b } = hexToRgb(el.color || '#000000');
   doc.setTextColor(r, g, b);
 
-  // Font setup with accurate px to pt conversion
+  // Font setup with accurate px to pt conversion, scaled with the stage on the page
   const fontSizePx = el.fontSize || 16;
-  const fontSizePt = pxToPointsPDF(fontSizePx);
+  const fontSizePt = pxToPointsPDF(fontSizePx) * scale;
   doc.setFontSize(fontSizePt);
 
   const fontName = getJsPDFFont(el.fontFamily || 'Arial');
@@ -383,7 +404,16 @@ export const generatePPTX = async (
   onProgress?: ProgressCallback
 ) => {
   const pptx = new PptxGenJS();
-  pptx.layout = 'LAYOUT_16x9';
+  const frame = resolvePageFrame('PPTX', options, layout.stage ?? DEFAULT_STAGE_SIZE);
+  const { page: slideSize, box } = frame;
+  if (!options.pageSize || options.pageSize === '16:9') {
+    pptx.layout = 'LAYOUT_16x9';
+  } else if (options.pageSize === '4:3') {
+    pptx.layout = 'LAYOUT_4x3';
+  } else {
+    pptx.defineLayout({ name: `TSX2SLIDES_${options.pageSize}`, width: slideSize.width, height: slideSize.height });
+    pptx.layout = `TSX2SLIDES_${options.pageSize}`;
+  }
   pptx.title = layout.title;
 
   const quality = options.quality || 'standard';
@@ -391,22 +421,35 @@ export const generatePPTX = async (
 
   if (options.rasterize && layout.snapshot) {
     const scale = quality === 'high' ? 2 : quality === 'draft' ? 1 : 1.5;
-    const images = await rasterizeAllPages(layout.snapshot, layout.pages.length, scale);
+    const images = await rasterizeAllPages(
+      layout.snapshot,
+      layout.pages.length,
+      scale,
+      layout.pages.map((page) => page.snapshot)
+    );
     images.forEach((dataUrl, index) => {
       const slide = pptx.addSlide();
-      slide.addImage({ data: dataUrl, x: 0, y: 0, w: PPTX_W, h: PPTX_H });
+      const bgColor = layout.pages[index]?.bgColor;
+      if (bgColor) {
+        slide.background = { color: bgColor.replace('#', '') };
+      }
+      slide.addImage({ data: dataUrl, x: box.x, y: box.y, w: box.width, h: box.height });
       onProgress?.(Math.min(98, Math.round(((index + 1) / images.length) * 90) + 8), 'Rasterizing PPTX pages');
     });
 
-    await pptx.writeFile({ fileName: `${sanitizeFilename(layout.title)}.pptx` });
+    await saveExport('PPTX', () => pptx.writeFile({ fileName: `${sanitizeFilename(layout.title)}.pptx` }));
     onProgress?.(100, 'PPTX ready to download');
     return;
   }
   const totalElements = layout.pages.reduce((sum, page) => sum + page.elements.length, 0) || 1;
   let processed = 0;
+  // Entrance effects per slide, keyed by animation group
+  const slideAnimations: Map<number, EntranceAnimation>[] = [];
 
   for (const page of layout.pages) {
     const slide = pptx.addSlide();
+    const animations = new Map<number, EntranceAnimation>();
+    slideAnimations.push(animations);
 
     // Set background
     if (page.bgColor) {
@@ -422,26 +465,45 @@ export const generatePPTX = async (
     const sortedElements = sortElementsForRendering(page.elements);
 
     // Render each element
-    for (const el of sortedElements) {
-      await renderPptxElement(pptx, slide, el, preset);
+    for (const [index, el] of sortedElements.entries()) {
+      if (el.animation) animations.set(el.animation.group, el.animation);
+      const objectName = el.animation ? animatedObjectName(el.animation, index) : undefined;
+      await renderPptxElement(pptx, slide, el, preset, frame, objectName);
       processed += 1;
       const percent = Math.min(98, Math.round((processed / totalElements) * 90) + 8);
       onProgress?.(percent, 'Placing shapes and text in PPTX');
     }
   }
 
-  await pptx.writeFile({ fileName: `${sanitizeFilename(layout.title)}.pptx` });
+  const fileName = `${sanitizeFilename(layout.title)}.pptx`;
+  if (slideAnimations.some((animations) => animations.size > 0)) {
+    onProgress?.(99, 'Adding entrance animations');
+    await saveExport('PPTX', async () => {
+      const data = await pptx.write({ outputType: 'uint8array' }) as Uint8Array;
+      downloadBlob(new Blob([addEntranceAnimations(data, slideAnimations)], { type: PPTX_MIME_TYPE }), fileName);
+    });
+  } else {
+    await saveExport('PPTX', () => pptx.writeFile({ fileName }));
+  }
   onProgress?.(100, 'PPTX ready to download');
 };
 
 /**
  * Renders a single element to PPTX
  */
-const renderPptxElement = async (pptx: PptxGenJS, slide: any, el: LayoutElement, preset: QualityPreset) => {
-  const x = `${el.x}%`;
-  const y = `${el.y}%`;
-  const w = `${el.w}%`;
-  const h = `${el.h}%`;
+const renderPptxElement = async (
+  pptx: PptxGenJS,
+  slide: any,
+  el: LayoutElement,
+  preset: QualityPreset,
+  frame: PageFrame,
+  objectName?: string
+) => {
+  const { x, y, width: w, height: h } = toPageRect(frame.box, el);
+  const { scale } = frame;
+
+  // Cropped content that falls entirely off the slide is left out
+  if (x >= frame.page.width || y >= frame.page.height || x + w <= 0 || y + h <= 0) return;
 
   // Handle image elements
   if (el.imageData) {
@@ -453,6 +515,7 @@ const renderPptxElement = async (pptx: PptxGenJS, slide: any, el: LayoutElement,
         y,
         w,
         h,
+        objectName,
       });
     } catch (err) {
       console.warn('Failed to add image to PPTX:', err);
@@ -467,6 +530,7 @@ const renderPptxElement = async (pptx: PptxGenJS, slide: any, el: LayoutElement,
       y,
       w,
       h,
+      objectName,
       fill: el.bgColor
         ? {
           color: el.bgColor.replace('#', ''),
@@ -479,7 +543,7 @@ const renderPptxElement = async (pptx: PptxGenJS, slide: any, el: LayoutElement,
     if (el.color || el.strokeWidthPx) {
       options.line = {
         color: (el.color || el.bgColor || '#000000').replace('#', ''),
-        width: el.strokeWidthPx ? pxToPointsPPTX(el.strokeWidthPx) : 1,
+        width: (el.strokeWidthPx ? pxToPointsPPTX(el.strokeWidthPx) : 1) * scale,
       };
 
       if (el.borderStyle === 'dashed') {
@@ -505,10 +569,11 @@ const renderPptxElement = async (pptx: PptxGenJS, slide: any, el: LayoutElement,
       y,
       w,
       h,
+      objectName,
       fill: el.bgColor ? { color: el.bgColor.replace('#', '') } : undefined,
       line: el.color || el.strokeWidthPx ? {
         color: (el.color || el.bgColor || '#000000').replace('#', ''),
-        width: el.strokeWidthPx ? pxToPointsPPTX(el.strokeWidthPx) : 1,
+        width: (el.strokeWidthPx ? pxToPointsPPTX(el.strokeWidthPx) : 1) * scale,
         dashType: el.borderStyle === 'dashed' ? 'dash' : el.borderStyle === 'dotted' ? 'sysDot' : undefined,
       } : undefined,
     });
@@ -517,20 +582,21 @@ const renderPptxElement = async (pptx: PptxGenJS, slide: any, el: LayoutElement,
 
   // Handle text with improved positioning
   if (el.type === 'text' && el.text) {
-    // Use accurate px to points conversion for PPTX
+    // Use accurate px to points conversion for PPTX, scaled with the stage on the slide
     const fontSizePx = el.fontSize || 16;
-    const fontSize = pxToPointsPPTX(fontSizePx);
+    const fontSize = pxToPointsPPTX(fontSizePx) * scale;
     const fontFace = getPptxFont(el.fontFamily || 'Arial');
 
     // Calculate line spacing - PPTX uses points
     const lineHeightPx = el.lineHeight || fontSizePx * 1.2;
-    const lineSpacingPt = pxToPointsPPTX(lineHeightPx);
+    const lineSpacingPt = pxToPointsPPTX(lineHeightPx) * scale;
 
     slide.addText(el.text, {
       x,
       y,
       w,
       h,
+      objectName,
       color: el.color ? el.color.replace('#', '') : '000000',
       fontSize,
       bold: el.fontWeight === 'bold',
@@ -553,7 +619,8 @@ const renderPptxElement = async (pptx: PptxGenJS, slide: any, el: LayoutElement,
       y,
       w,
       h,
-      line: { color: el.color?.replace('#', '') || '000000', width: 2 },
+      objectName,
+      line: { color: el.color?.replace('#', '') || '000000', width: 2 * scale },
     });
   }
 };
@@ -0,0 +1,15 @@
+/**
+ * Hash Utilities
+ */
+
+/**
+ * Hashes a string with 32-bit FNV-1a, returned in hex. Fast and stable, not cryptographic.
+ */
+export const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(16);
+};
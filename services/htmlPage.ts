@@ -0,0 +1,177 @@
+/**
+ * HTML Page Service
+ *
+ * Turns a static HTML entry file into a component for the analysis sandbox:
+ * the `<body>` markup is injected as-is, inline and linked stylesheets are collected,
+ * and relative asset references are inlined from the project files. Scripts are not run:
+ * script elements, inline event handlers and `javascript:` URLs are removed.
+ */
+
+import React from 'react';
+import { ProjectContext } from '../types';
+
+type ProjectFiles = ProjectContext['files'];
+
+export interface HtmlPage {
+  component: React.ComponentType;
+  css: string;
+  /** The page has its own inline or linked stylesheets */
+  hasCss: boolean;
+  /** The page loads the Tailwind Play CDN, so utilities must be generated offline */
+  usesTailwindCdn: boolean;
+  /** Relative references that could not be found in the project */
+  missingAssets: string[];
+  /** Remote stylesheets that cannot be fetched offline */
+  remoteStylesheets: string[];
+}
+
+/** Attributes that reference assets, per element selector */
+const ASSET_ATTRIBUTES: [string, string][] = [
+  ['img[src]', 'src'],
+  ['source[src]', 'src'],
+  ['video[poster]', 'poster'],
+  ['input[type="image"][src]', 'src'],
+  ['image[href]', 'href'],
+];
+
+/** Attributes whose `javascript:` URLs would run code when followed or loaded */
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href', 'data'];
+
+const isExternal = (ref: string) => /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref);
+
+const resolvePath = (fromDir: string, ref: string) => {
+  const segments: string[] = [];
+  const target = ref.split(/[?#]/)[0];
+  (target.startsWith('/') ? target : `${fromDir}/${target}`).split('/').forEach((segment) => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return `/${segments.join('/')}`;
+};
+
+const dirname = (filePath: string) => filePath.split('/').slice(0, -1).join('/');
+
+/**
+ * Checks whether an entry file is a static HTML page
+ */
+export const isHtmlPath = (filePath?: string | null) => /\.html?$/i.test(filePath || '');
+
+/**
+ * Points document-level selectors at the sandbox: `html`/`:root` at the stage, `body` at the body wrapper
+ */
+const scopeDocumentSelectors = (css: string) =>
+  css.replace(/([^{};]+)\{/g, (full, prelude: string) => {
+    if (prelude.trim().startsWith('@')) return full;
+    const scoped = prelude
+      .replace(/(^|[\s,>+~(])(?:html|:root)(?=[\s,.:#[>+~)]|$)/g, '$1#analysis-stage')
+      .replace(/(^|[\s,>+~(])body(?=[\s,.:#[>+~)]|$)/g, '$1[data-html-body]');
+    return `${scoped}{`;
+  });
+
+/**
+ * Parses an HTML page and prepares its body, styles and assets for rendering
+ */
+export const loadHtmlPage = (html: string, entryPath: string | undefined, files: ProjectFiles): HtmlPage => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const entryDir = entryPath ? dirname(entryPath) : '';
+  const missingAssets: string[] = [];
+  const remoteStylesheets: string[] = [];
+
+  const inlineAsset = (ref: string, fromDir: string): string | null => {
+    if (!ref || isExternal(ref)) return null;
+    const file = files[resolvePath(fromDir, ref)];
+    if (file) return file.content;
+    if (!missingAssets.includes(ref)) missingAssets.push(ref);
+    return null;
+  };
+
+  const rewriteCss = (css: string, fromDir: string, seen: Set<string>): string =>
+    css
+      .replace(/@import\s+(?:url\()?\s*['"]?([^'")\s;]+)['"]?\s*\)?[^;]*;/g, (full, ref: string) => {
+        if (isExternal(ref)) return full;
+        const path = resolvePath(fromDir, ref);
+        const file = files[path];
+        if (!file || file.kind !== 'text' || seen.has(path)) return '';
+        seen.add(path);
+        return rewriteCss(file.content, dirname(path), seen);
+      })
+      .replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (full, _quote: string, ref: string) => {
+        const inlined = inlineAsset(ref.trim(), fromDir);
+        return inlined ? `url('${inlined}')` : full;
+      });
+
+  // Stylesheets in document order, head and body alike
+  const sheets: string[] = ['[data-html-body] { display: block; margin: 8px; }'];
+  doc.querySelectorAll('style, link[rel~="stylesheet"]').forEach((node) => {
+    if (node.tagName === 'STYLE') {
+      sheets.push(rewriteCss(node.textContent || '', entryDir, new Set()));
+    } else {
+      const href = node.getAttribute('href') || '';
+      if (isExternal(href)) {
+        remoteStylesheets.push(href);
+        return;
+      }
+      const path = resolvePath(entryDir, href);
+      const file = files[path];
+      if (file && file.kind === 'text') {
+        sheets.push(rewriteCss(file.content, dirname(path), new Set([path])));
+      } else if (!missingAssets.includes(href)) {
+        missingAssets.push(href);
+      }
+    }
+    node.remove();
+  });
+
+  const usesTailwindCdn = Array.from(doc.querySelectorAll('script[src]'))
+    .some((script) => /tailwindcss/i.test(script.getAttribute('src') || ''));
+  doc.querySelectorAll('script, noscript').forEach((node) => node.remove());
+  // Inline event handlers, javascript: URLs and srcdoc frames would run in the sandbox like scripts
+  doc.body.querySelectorAll('*').forEach((element) => {
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      if (/^(on|srcdoc$)/i.test(name) || (URL_ATTRIBUTES.includes(name.toLowerCase()) && /^\s*javascript:/i.test(value))) {
+        element.removeAttribute(name);
+      }
+    });
+  });
+
+  ASSET_ATTRIBUTES.forEach(([selector, attribute]) => {
+    doc.body.querySelectorAll(selector).forEach((element) => {
+      const inlined = inlineAsset(element.getAttribute(attribute) || '', entryDir);
+      if (inlined) element.setAttribute(attribute, inlined);
+    });
+  });
+  // srcset candidates cannot be inlined reliably; fall back to the rewritten src
+  doc.body.querySelectorAll('img[srcset], source[srcset]').forEach((element) => {
+    if (!element.getAttribute('srcset')?.split(',').every((candidate) => isExternal(candidate.trim()))) {
+      element.removeAttribute('srcset');
+    }
+  });
+  doc.body.querySelectorAll<HTMLElement>('[style*="url("]').forEach((element) => {
+    element.setAttribute('style', rewriteCss(element.getAttribute('style') || '', entryDir, new Set()));
+  });
+
+  const hasCss = sheets.length > 1;
+  const bodyStyle = doc.body.getAttribute('style');
+  if (bodyStyle) sheets.push(`[data-html-body] { ${rewriteCss(bodyStyle, entryDir, new Set())} }`);
+
+  const bodyHtml = doc.body.innerHTML;
+  const bodyClass = doc.body.getAttribute('class') || undefined;
+  const bodyId = doc.body.getAttribute('id') || undefined;
+  const HtmlPageBody = () =>
+    React.createElement('div', {
+      'data-html-body': '',
+      className: bodyClass,
+      id: bodyId,
+      dangerouslySetInnerHTML: { __html: bodyHtml },
+    });
+
+  return {
+    component: HtmlPageBody,
+    css: scopeDocumentSelectors(sheets.join('\n')),
+    hasCss,
+    usesTailwindCdn,
+    missingAssets,
+    remoteStylesheets,
+  };
+};
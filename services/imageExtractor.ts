@@ -325,7 +325,11 @@ export const extractAllImages = async (
  */
 export const svgToBase64 = async (svg: SVGElement): Promise<string | null> => {
     try {
-        const svgData = new XMLSerializer().serializeToString(svg);
+        // Resolve currentColor (used by icon libraries) against the rendered text color
+        const clone = svg.cloneNode(true) as SVGElement;
+        const color = window.getComputedStyle(svg).color;
+        if (color) clone.style.color = color;
+        const svgData = new XMLSerializer().serializeToString(clone);
         const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' });
         const url = URL.createObjectURL(svgBlob);
 
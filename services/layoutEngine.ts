@@ -7,22 +7,97 @@
 
 import React from 'react';
 import * as ReactDOM from 'react-dom/client';
+import * as ReactDOMBase from 'react-dom';
 import { flushSync } from 'react-dom';
+import * as ReactJsxRuntime from 'react/jsx-runtime';
 import * as ts from 'typescript';
-import { DocumentLayout, ExportFormat, LayoutElement, PageLayout, ProjectContext, LayoutDiagnostics, RenderSnapshot } from '../types';
+import {
+  DocumentLayout,
+  ExportFormat,
+  LayoutElement,
+  PageLayout,
+  ProjectContext,
+  LayoutDiagnostics,
+  DatasetRowError,
+  PackageDiagnostic,
+  RenderSnapshot,
+  StageSize,
+  DeterministicOptions,
+  AnimationCapture,
+} from '../types';
 import { walkDom, validateElements, LayoutItem, ShapeElement } from './domWalker';
 import { TextElement } from './textExtractor';
 import { ExtractedImage } from './imageExtractor';
 import { paginateLayoutItems } from './pageBreaker';
 import { rgbToHex } from './colorUtils';
+import { hashString } from './hashUtils';
+import { findReferencedLibraries, getBundledLibrary, preloadBundledLibraries } from './bundledLibraries';
+import { isCssModulePath, transformCssModule } from './cssModules';
+import { resolveComponentProps } from './componentProps';
+import { ALL_EXPORTS, collectComponentExports, isComponentExport, listComponentExports } from './componentExports';
+import { getCsfStories } from './storybook';
+import { compileMarkdownDeck, isMarkdownPath } from './markdownDeck';
+import { isHtmlPath, loadHtmlPage } from './htmlPage';
+import { checkProjectTypes, TypeCheckError } from './typeChecker';
+import { findSourceLocation, registerSourceMap, RenderErrorBoundary, RuntimeError, toSourceUrl } from './runtimeErrors';
+import { ConversionError, ModuleNotFoundError, NoComponentExportError, TimeoutError, TranspileError } from './errors';
+import { buildCodeFrame } from './codeFrame';
+import { DatasetRow } from './mailMerge';
+import { DEFAULT_STAGE_SIZE } from './stageSize';
+import { createPackageResolver, isVendoredPath } from './packageResolver';
+import { createPathAliasResolver } from './pathAliases';
+import { installFetchFixtures, loadFixtures } from './fetchFixtures';
+import { freezeSnapshotAnimations, settleAnimations } from './animations';
+import { CLOCK_GLOBALS, createVirtualClock, getNativeClockGlobals, VirtualClock } from './determinism';
+import { createReadinessTracker, DEFAULT_READY_TIMEOUT_MS, detectReadySignal, ReadinessTracker } from './readiness';
+import { CaptureStep, describeCaptureStep, runCaptureStep } from './captureScript';
+import { applyDecorators, Decorator, findDecoratorConfigPath, readDecorators } from './decorators';
+import {
+  createSlideCaptureModule,
+  findNextControl,
+  getDomSignature,
+  getExportedSlides,
+  SlideCaptureRegistry,
+  SlideStateStrategy,
+} from './slideStates';
+import {
+  collectTailwindCandidates,
+  cssUsesTailwind,
+  expandTailwindApply,
+  findTailwindConfigPath,
+  generateTailwindCss,
+  TailwindConfig,
+  TAILWIND_MODULES,
+} from './tailwindGenerator';
+
+interface TranspiledModule {
+  code: string;
+  sourceMap?: string;
+}
 
-const CONTAINER_WIDTH = 1280;
-const CONTAINER_HEIGHT = 720;
-
-const transpileCache = new Map<string, string>();
+const transpileCache = new Map<string, TranspiledModule>();
 const runnerCache = new Map<string, Function>();
-const MAX_TRANSPILE_CACHE = 8;
-const MAX_RUNNER_CACHE = 8;
+// Sized for projects that ship vendored packages, where every package file is a module
+const MAX_TRANSPILE_CACHE = 256;
+const MAX_RUNNER_CACHE = 256;
+const MAX_SLIDE_STATES = 40;
+const MAX_DATASET_ROWS = 500;
+/** Budget kept back from readiness waits for fonts, images and the capture of the page */
+const READY_RESERVE_MS = 3000;
+
+/** Called at the top of every loop body in transpiled code; throws once the execution budget is spent */
+const LOOP_GUARD = '__tsx2slides_loopGuard__';
+/** Loop iterations between clock reads in the loop guard */
+const LOOP_GUARD_INTERVAL = 1024;
+
+/**
+ * Parameters every module runner receives, mirroring the CommonJS wrapper plus common Node
+ * globals. The clock globals that deterministic renders replace are bound in an enclosing
+ * scope instead, so a module may still declare its own top-level `performance` or `Math`.
+ */
+const RUNNER_PARAMS = ['require', 'module', 'exports', 'React', 'ReactDOM', 'process', 'global', LOOP_GUARD];
+const MODULE_PROCESS = { env: { NODE_ENV: 'production' } };
+const REACT_DOM_MODULE = { ...ReactDOMBase, ...ReactDOM };
 
 export interface ParseRequest {
   content: string;
@@ -31,18 +106,59 @@ export interface ParseRequest {
   forceSinglePage?: boolean;
   maxPages?: number;
   project?: ProjectContext;
+  captureStates?: boolean;
+  /** Clicks and toggles replayed in order; a page is captured before the first step and after each one */
+  captureScript?: CaptureStep[];
+  /** Props for the root component, taking precedence over project props files and exports */
+  props?: Record<string, any>;
+  /** Mail-merge records: the component is rendered once per row with the row as props */
+  dataset?: DatasetRow[];
+  /** Export to render; `*` renders every component export as its own page */
+  exportName?: string;
+  /** Type-check the entry and project sources first; type errors abort the render */
+  typeCheck?: boolean;
+  /** Execution budget per page in milliseconds; loops in user code throw a TimeoutError once it is spent */
+  timeoutMs?: number;
+  /** Stage size; the sandbox viewport is sized to match */
+  stage?: StageSize;
+  /** Longest wait per capture for Suspense, effects and the component's ready signal */
+  readyTimeoutMs?: number;
+  /** Freeze the clock, seed Math.random and run timers on a virtual clock */
+  deterministic?: DeterministicOptions;
+  /** Where CSS and Web Animations are captured; defaults to the frame rendered at capture time */
+  animations?: AnimationCapture;
 }
 
-const hashString = (value: string) => {
-  let hash = 2166136261;
-  for (let i = 0; i < value.length; i++) {
-    hash ^= value.charCodeAt(i);
-    hash = Math.imul(hash, 16777619);
-  }
-  return (hash >>> 0).toString(16);
+let executionDeadline = Infinity;
+/** Virtual clock of the current deterministic render; advanced before each capture */
+let virtualClock: VirtualClock | null = null;
+let virtualClockStep = 0;
+let clockGlobals: unknown[] = [];
+/** Animation capture point of the current render, and the animations settled so far */
+let animationCapture: AnimationCapture = 'first-frame';
+let settledAnimations = 0;
+let executionBudgetMs = 0;
+let loopIterations = 0;
+/** Called whenever a page starts its budget; the sandbox resets its watchdog */
+let onPageStart: () => void = () => {};
+
+/**
+ * Starts the execution budget of the next page, dataset row, slide state or script step,
+ * so long decks do not share one deadline
+ */
+const startPageBudget = () => {
+  executionDeadline = executionBudgetMs ? performance.now() + executionBudgetMs : Infinity;
+  onPageStart();
 };
 
-const waitForNextFrame = () => new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve()));
+const loopGuard = () => {
+  if (++loopIterations % LOOP_GUARD_INTERVAL !== 0 || performance.now() <= executionDeadline) return;
+  const error = new TimeoutError(
+    `Execution exceeded the ${Math.round(executionBudgetMs / 1000)} s time limit; a loop in the component did not finish.`
+  );
+  error.location = findSourceLocation(error.stack) ?? undefined;
+  throw error;
+};
 
 const withTimeout = async <T,>(promise: Promise<T>, timeoutMs: number, fallback: T): Promise<T> => {
   let timer: number | undefined;
@@ -58,6 +174,13 @@ const withTimeout = async <T,>(promise: Promise<T>, timeoutMs: number, fallback:
   }
 };
 
+// Frames of an offscreen cross-origin iframe may be throttled, so a timer stands in for a late frame
+const waitForNextFrame = () => withTimeout(
+  new Promise<void>((resolve) => window.requestAnimationFrame(() => resolve())),
+  100,
+  undefined
+);
+
 const waitForFonts = async (timeoutMs: number) => {
   const fonts = (document as any).fonts as FontFaceSet | undefined;
   if (!fonts?.ready) return;
@@ -98,38 +221,99 @@ const waitForImages = async (container: HTMLElement, timeoutMs: number) => {
   await withTimeout(Promise.all(tasks).then(() => undefined), timeoutMs, undefined);
 };
 
-const settleLayout = async (container: HTMLElement) => {
+const settleLayout = async (container: HTMLElement, readiness: ReadinessTracker) => {
   await waitForNextFrame();
+  virtualClock?.advance(virtualClockStep);
+  await readiness.waitUntilReady(executionDeadline - READY_RESERVE_MS);
   await waitForFonts(1200);
   await waitForImages(container, 1400);
   await waitForNextFrame();
+  if (animationCapture !== 'first-frame') {
+    settledAnimations += await settleAnimations(container, animationCapture, waitForNextFrame);
+  }
 };
 
 /**
- * Main entry point: parses TSX content and returns a document layout
+ * Main entry point: parses TSX content and returns a document layout. `onPageStart` is
+ * called each time a page starts a fresh execution budget.
  */
-export const parseTsxToLayout = async ({ content, format, sourceName, forceSinglePage, maxPages, project }: ParseRequest): Promise<DocumentLayout> => {
+export const parseTsxToLayout = async ({
+  content: source,
+  format,
+  sourceName,
+  forceSinglePage,
+  maxPages,
+  project,
+  captureStates,
+  captureScript,
+  props,
+  dataset,
+  exportName,
+  typeCheck,
+  timeoutMs,
+  stage = DEFAULT_STAGE_SIZE,
+  readyTimeoutMs = DEFAULT_READY_TIMEOUT_MS,
+  deterministic,
+  animations = 'first-frame',
+}: ParseRequest, hooks: { onPageStart?: () => void } = {}): Promise<DocumentLayout> => {
   const host = document.getElementById('analysis-container');
   if (!host) {
     throw new Error('Hidden analysis container missing from DOM.');
   }
+  executionBudgetMs = timeoutMs || 0;
+  onPageStart = hooks.onPageStart ?? (() => {});
+  startPageBudget();
+  virtualClock = deterministic ? createVirtualClock(deterministic) : null;
+  virtualClockStep = deterministic?.advanceMs ?? 0;
+  clockGlobals = virtualClock?.globals ?? getNativeClockGlobals();
+  animationCapture = animations;
+  settledAnimations = 0;
+
+  // Markdown/MDX decks are compiled to a module exporting one component per slide
+  const deck = isMarkdownPath(sourceName) ? compileMarkdownDeck(source, sourceName!, project?.files) : null;
+  const content = deck ? deck.code : source;
+  if (deck && deck.slides.length === 0) {
+    throw new NoComponentExportError(
+      'The Markdown deck has no slides.',
+      [],
+      'Separate slides with a line containing only ---.'
+    );
+  }
+  // Static HTML pages are injected as markup; nothing is transpiled or executed
+  const entryPath = sourceName ? normalizePath(sourceName) : project?.entryPath;
+  const htmlPage = isHtmlPath(sourceName) ? loadHtmlPage(source, entryPath, project?.files || {}) : null;
 
   const projectUsesClassName = project?.files
-    ? Object.values(project.files).some((file) => file.kind === 'text' && /\bclassName\s*=/.test(file.content))
+    ? Object.values(project.files).some((file) =>
+      file.kind === 'text' && !isVendoredPath(file.path) && /\bclassName\s*=/.test(file.content)
+    )
     : false;
 
   const diagnostics: LayoutDiagnostics = {
     missingImports: [],
-    usedClassName: /\bclassName\s*=/.test(content) || projectUsesClassName,
-    hasCss: Boolean(project?.hasCss),
+    usedClassName: (htmlPage ? /\bclass\s*=/ : /\bclassName\s*=/).test(content) || projectUsesClassName,
+    hasCss: Boolean(project?.hasCss || htmlPage?.hasCss),
     warnings: [],
   };
 
-  // Prepare shadow sandbox so project CSS does not leak into the app UI
+  deck?.missingAssets.forEach((ref) => diagnostics.warnings.push(`Asset not found in project: ${ref}`));
+
+  if (typeCheck && (deck || htmlPage)) {
+    diagnostics.warnings.push('Strict type check only applies to TSX/TS/JSX/JS entries; it was skipped.');
+  } else if (typeCheck) {
+    const typeDiagnostics = await checkProjectTypes({ content: source, entryPath, project });
+    if (typeDiagnostics.some(({ category }) => category === 'error')) {
+      throw new TypeCheckError(typeDiagnostics);
+    }
+    diagnostics.types = typeDiagnostics;
+  }
+
+  // Prepare shadow root so project CSS does not reach the sandbox page. The stage covers
+  // the sandbox viewport, so fixed-position elements line up with it.
   Object.assign(host.style, {
     position: 'absolute',
-    width: '0px',
-    height: '0px',
+    width: `${stage.width}px`,
+    height: `${stage.height}px`,
     overflow: 'hidden',
     top: '0',
     left: '0',
@@ -142,10 +326,10 @@ export const parseTsxToLayout = async ({ content, format, sourceName, forceSingl
     :host { all: initial; }
     #analysis-stage {
       position: absolute;
-      left: -9999px;
-      top: -9999px;
-      width: ${CONTAINER_WIDTH}px;
-      height: ${CONTAINER_HEIGHT}px;
+      left: 0;
+      top: 0;
+      width: ${stage.width}px;
+      height: ${stage.height}px;
       overflow: auto;
       visibility: visible;
       pointer-events: none;
@@ -160,8 +344,9 @@ export const parseTsxToLayout = async ({ content, format, sourceName, forceSingl
   `;
   shadowRoot.appendChild(styleTag);
 
+  let projectStyle: HTMLStyleElement | null = null;
   if (project?.cssText) {
-    const projectStyle = document.createElement('style');
+    projectStyle = document.createElement('style');
     projectStyle.textContent = project.cssText;
     shadowRoot.appendChild(projectStyle);
   }
@@ -174,10 +359,10 @@ export const parseTsxToLayout = async ({ content, format, sourceName, forceSingl
   Object.assign(container.style, {
     all: 'initial', // Reset all inherited styles
     position: 'absolute',
-    left: '-9999px',
-    top: '-9999px',
-    width: `${CONTAINER_WIDTH}px`,
-    height: `${CONTAINER_HEIGHT}px`,
+    left: '0',
+    top: '0',
+    width: `${stage.width}px`,
+    height: `${stage.height}px`,
     overflow: 'auto',
     visibility: 'visible',
     pointerEvents: 'none',
@@ -187,58 +372,211 @@ export const parseTsxToLayout = async ({ content, format, sourceName, forceSingl
     fontFamily: 'Arial, sans-serif',
   });
 
-  // Transpile TSX to JavaScript
-  const transpileKey = `${sourceName || 'inline'}:${hashString(content)}`;
-  if (transpileCache.size > MAX_TRANSPILE_CACHE) transpileCache.clear();
-  const transpiled = transpileCache.get(transpileKey) ?? transpileTsx(content, sourceName);
-  transpileCache.set(transpileKey, transpiled);
+  // Load bundled libraries (e.g. lucide-react) referenced anywhere in the project
+  const projectSources = [
+    content,
+    ...Object.values(project?.files || {})
+      .filter((file) => file.kind === 'text')
+      .map((file) => file.content),
+  ];
+  const failedLibraries = await preloadBundledLibraries(findReferencedLibraries(projectSources));
+  failedLibraries.forEach((name) => diagnostics.warnings.push(`Bundled library ${name} failed to load; its imports are mocked.`));
+
+  // Components opting into explicit readiness are captured once they call markReady() or set data-ready
+  const readySignal = detectReadySignal([
+    content,
+    ...Object.values(project?.files || {})
+      .filter((file) => file.kind === 'text' && !isVendoredPath(file.path))
+      .map((file) => file.content),
+  ]);
+  const readiness = createReadinessTracker(container, readySignal, readyTimeoutMs);
+
+  // The sandbox is offline: fetch and XHR are answered from the project's fixtures
+  const fixtures = loadFixtures(project?.files || {}, (message) => diagnostics.warnings.push(message));
+  const requests = { served: 0, unmatched: new Set<string>() };
+  const restoreNetwork = installFetchFixtures(fixtures, project?.files || {}, {
+    onServed: () => { requests.served += 1; },
+    onUnmatched: (request) => { requests.unmatched.add(request); },
+  });
 
   // Create module scope for execution
   const module: { exports: Record<string, any> } = { exports: {} };
-  const require = createRequire(project, diagnostics, sourceName);
-  const runnerKey = hashString(transpiled);
-  if (runnerCache.size > MAX_RUNNER_CACHE) runnerCache.clear();
-  const runner = runnerCache.get(runnerKey) ?? new Function('require', 'module', 'exports', 'React', 'ReactDOM', transpiled);
-  runnerCache.set(runnerKey, runner);
+  const slideRegistry: SlideCaptureRegistry = { controller: null };
+  const moduleCss: string[] = [];
+  const require = createRequire(project, diagnostics, sourceName, {
+    react: readiness.react,
+    runtimeModules: { tsx2slides: { ...createSlideCaptureModule(slideRegistry), markReady: readiness.markReady } },
+    onCss: (_filePath, css) => moduleCss.push(css),
+  });
+  if (htmlPage) {
+    module.exports = { default: htmlPage.component };
+    moduleCss.push(htmlPage.css);
+    htmlPage.missingAssets.forEach((ref) => diagnostics.warnings.push(`Asset not found in project: ${ref}`));
+    htmlPage.remoteStylesheets.forEach((href) => diagnostics.warnings.push(`Remote stylesheet skipped (offline): ${href}`));
+  } else {
+    // Transpile TSX to JavaScript; Markdown decks map to their generated TSX
+    const modulePath = deck ? `${entryPath}.tsx` : entryPath || '/inline.tsx';
+    const transpileKey = `${sourceName || 'inline'}:${hashString(content)}`;
+    if (transpileCache.size > MAX_TRANSPILE_CACHE) transpileCache.clear();
+    const transpiled = transpileCache.get(transpileKey) ?? transpileTsx(content, deck ? `${sourceName}.tsx` : sourceName);
+    transpileCache.set(transpileKey, transpiled);
+
+    try {
+      const runner = compileRunner(modulePath, content, transpiled);
+      runner(require, module, module.exports, readiness.react, ReactDOM, MODULE_PROCESS, globalThis, loopGuard);
+    } catch (err: any) {
+      if (err instanceof ConversionError) throw err;
+      throw blameMissingImports(new RuntimeError(`Compile or execution error: ${err?.message || err}`, err), diagnostics);
+    }
+  }
 
-  try {
-    runner(require, module, module.exports, React, ReactDOM);
-  } catch (err: any) {
-    throw new Error(`Compile or execution error: ${err?.message || err}`);
+  // Generate CSS for Tailwind utilities before anything is measured
+  const tailwind = buildTailwindCss(content, project, diagnostics, require, Boolean(htmlPage?.usesTailwindCdn));
+  let stageCss = project?.cssText || '';
+  if (tailwind) {
+    const baseStyle = document.createElement('style');
+    baseStyle.textContent = tailwind.base;
+    shadowRoot.insertBefore(baseStyle, projectStyle ?? container);
+    if (projectStyle) projectStyle.textContent = tailwind.projectCss;
+    const utilityStyle = document.createElement('style');
+    utilityStyle.textContent = tailwind.utilities;
+    shadowRoot.insertBefore(utilityStyle, container);
+    stageCss = [tailwind.base, tailwind.projectCss, tailwind.utilities].join('\n');
   }
 
-  // Find the React component
-  const Component = resolveComponent(module.exports);
+  // Scoped CSS from imported CSS Modules, package stylesheets and HTML page styles follows the global project CSS
+  if (moduleCss.length > 0) {
+    const moduleStyle = document.createElement('style');
+    moduleStyle.textContent = moduleCss.join('\n');
+    shadowRoot.insertBefore(moduleStyle, container);
+    stageCss = [stageCss, moduleStyle.textContent].join('\n');
+    diagnostics.hasCss = true;
+  }
+
+  // Find the React component(s); a Storybook CSF module contributes one component per story
+  const exportOrder = htmlPage ? [] : listComponentExports(content, sourceName || undefined);
+  const stories = getCsfStories(module.exports, exportOrder, sourceName);
+  const storyTitle = module.exports.default?.title;
+  const componentExports: { name: string; component: any; notes?: string }[] = deck
+    ? deck.slides.map(({ name, notes }) => ({ name, component: module.exports[name], notes }))
+    : stories.length > 0
+      ? stories.map(({ name, title, component }) => ({ name, component, notes: storyTitle ? `${storyTitle} / ${title}` : title }))
+      : collectComponentExports(module.exports, exportOrder);
+  diagnostics.exports = { available: componentExports.map(({ name }) => name), rendered: [] };
+  const renderAll = exportName === ALL_EXPORTS || ((stories.length > 0 || Boolean(deck)) && !exportName);
+  const Component = renderAll
+    ? componentExports[0]?.component
+    : stories.length > 0
+      ? resolveStory(componentExports, exportName!)
+      : resolveComponent(module.exports, exportName);
   if (!Component) {
-    throw new Error('No React component export detected. Export a component as default or named export.');
+    throw new NoComponentExportError('No React component export detected.');
   }
 
+  const componentProps = resolveComponentProps({
+    component: Component,
+    exportsObj: module.exports,
+    project,
+    entryPath,
+    overrides: props,
+  });
+  const decorators = loadDecorators(module.exports, project, entryPath, require, diagnostics);
+
   // Prepare container
   container.innerHTML = '';
   const root = ReactDOM.createRoot(container);
+  const mergeRows = dataset && dataset.length > 0 ? dataset : null;
+  const pageExports = renderAll && !mergeRows ? componentExports : null;
+  const scriptSteps = captureScript && captureScript.length > 0 ? captureScript : null;
+  if (renderAll && mergeRows) {
+    diagnostics.warnings.push(`All-exports mode is ignored while a dataset is attached; merged the ${componentExports[0].name} export.`);
+  }
+  if (scriptSteps && (mergeRows || pageExports)) {
+    diagnostics.warnings.push(`The capture script is ignored while ${mergeRows ? 'a dataset is attached' : 'every export is rendered'}.`);
+  }
 
+  const renderErrors = createRenderErrorCapture('Render failed');
+  const rootElement = applyDecorators(React.createElement(Component, componentProps.values), decorators, componentProps.values);
   try {
     flushSync(() => {
-      root.render(React.createElement(Component));
+      // Mail-merge templates and all-exports decks are rendered page by page below
+      root.render(mergeRows || pageExports ? null : renderErrors.wrap(rootElement));
     });
+    renderErrors.rethrow();
   } catch (err: any) {
     root.unmount();
-    throw new Error(`Render failed: ${err?.message || err}`);
+    if (err instanceof TimeoutError) throw err;
+    throw blameMissingImports(err instanceof RuntimeError ? err : new RuntimeError(`Render failed: ${err?.message || err}`, err), diagnostics);
   }
 
   try {
-    await settleLayout(container);
+    await settleLayout(container, readiness);
+    // Errors thrown from effects reach the boundary after the first commit
+    renderErrors.rethrow();
     const pseudoCount = countPseudoElements(container);
     if (pseudoCount > 0) {
       diagnostics.warnings.push(`${pseudoCount} element(s) use ::before/::after which may not export as vectors.`);
     }
-    const layout = await extractLayoutEnhanced(
-      container,
-      format,
-      sourceName || 'TSX Capture',
-      { forceSinglePage, maxPages }
-    );
+    const title = sourceName || 'TSX Capture';
+    const layout = mergeRows
+      ? await captureDatasetRows(root, container, format, title, {
+        component: Component,
+        baseProps: componentProps.values,
+        rows: mergeRows,
+        stageCss,
+        maxRows: maxPages || MAX_DATASET_ROWS,
+        decorators,
+        readiness,
+        diagnostics,
+      })
+      : pageExports
+      ? await captureComponentExports(root, container, format, title, {
+        components: pageExports.slice(0, maxPages || pageExports.length).map(({ name, component, notes }) => ({
+          name,
+          component,
+          notes,
+          props: resolveComponentProps({ component, exportsObj: module.exports, project, entryPath, overrides: props }).values,
+        })),
+        stageCss,
+        decorators,
+        readiness,
+        diagnostics,
+      })
+      : scriptSteps
+      ? await captureScriptSteps(container, format, title, {
+        steps: scriptSteps,
+        renderErrors,
+        stageCss,
+        maxPages: maxPages || MAX_SLIDE_STATES,
+        readiness,
+        diagnostics,
+      })
+      : captureStates
+      ? await captureSlideStates(root, container, format, title, {
+        exportsObj: module.exports,
+        registry: slideRegistry,
+        element: rootElement,
+        stageCss,
+        maxStates: maxPages || MAX_SLIDE_STATES,
+        decorators,
+        readiness,
+        diagnostics,
+      })
+      : await extractLayoutEnhanced(container, format, title, { forceSinglePage, maxPages });
+    renderErrors.rethrow();
     layout.diagnostics = diagnostics;
+    layout.props = componentProps;
+    layout.stage = stage;
+    if (deterministic) layout.deterministic = deterministic;
+    if (pageExports && stories.length > 0) {
+      layout.summary = `${layout.pages.length} stor${layout.pages.length > 1 ? 'ies' : 'y'} captured offline`;
+    } else if (pageExports && deck) {
+      layout.summary = `${layout.pages.length} Markdown slide${layout.pages.length > 1 ? 's' : ''} captured offline`;
+    }
+    if (!pageExports) {
+      const rendered = componentExports.find(({ component }) => component === Component);
+      diagnostics.exports.rendered = [rendered?.name || exportName || 'default'];
+    }
 
     if (diagnostics.usedClassName && !diagnostics.hasCss) {
       diagnostics.warnings.push('Detected className usage, but no project CSS was provided.');
@@ -246,13 +584,467 @@ export const parseTsxToLayout = async ({ content, format, sourceName, forceSingl
     if (diagnostics.missingImports.length > 0) {
       diagnostics.warnings.push(`Unresolved imports: ${diagnostics.missingImports.join(', ')}`);
     }
+    if (requests.served > 0 || requests.unmatched.size > 0) {
+      diagnostics.fixtures = { served: requests.served, unmatched: Array.from(requests.unmatched) };
+    }
+    if (requests.unmatched.size > 0) {
+      const where = fixtures.mapPath ? fixtures.mapPath.replace(/^\//, '') : 'a fixtures.json or __fixtures__/ folder';
+      diagnostics.warnings.push(
+        `No fixture for ${requests.unmatched.size} request${requests.unmatched.size > 1 ? 's' : ''}; add ${requests.unmatched.size > 1 ? 'them' : 'it'} to ${where}: ${Array.from(requests.unmatched).join(', ')}`
+      );
+    }
+    if (animations !== 'first-frame') {
+      diagnostics.animations = { settled: settledAnimations };
+    }
+    if (virtualClock) {
+      virtualClock.failures().forEach((message) => diagnostics.warnings.push(`A timer callback failed: ${message}`));
+      if (virtualClock.skipped() > 0) {
+        diagnostics.warnings.push('Timers fired too often to run on the virtual clock; some callbacks were skipped.');
+      }
+    }
+    const { signal, waitedMs, timedOut, reasons } = readiness.report();
+    diagnostics.readiness = { signal, waitedMs, timedOut };
+    if (timedOut > 0) {
+      diagnostics.warnings.push(
+        `Captured ${timedOut} page${timedOut > 1 ? 's' : ''} before ready after the ${readyTimeoutMs / 1000} s readiness timeout or the page's render time limit: ${reasons.join('; ')}.`
+      );
+    }
 
-    const snapshot = buildSnapshot(container, project?.cssText, layout.pages[0]?.bgColor || '#ffffff');
-    layout.snapshot = snapshot;
+    layout.snapshot = layout.pages[0]?.snapshot
+      ?? buildSnapshot(container, stageCss, layout.pages[0]?.bgColor || '#ffffff');
     return layout;
+  } catch (err) {
+    throw err instanceof RuntimeError ? blameMissingImports(err, diagnostics) : err;
   } finally {
     root.unmount();
+    readiness.disconnect();
+    restoreNetwork();
+  }
+};
+
+/**
+ * Reports a runtime failure as a missing-module error when imports were replaced
+ * with placeholders, since calling a placeholder is the likeliest cause
+ */
+const blameMissingImports = (error: RuntimeError, diagnostics: LayoutDiagnostics): ConversionError =>
+  diagnostics.missingImports.length > 0 ? new ModuleNotFoundError(diagnostics.missingImports, error) : error;
+
+/**
+ * Creates an error boundary wrapper that records the first render error with its
+ * component stack; `rethrow` raises it once rendering has been flushed
+ */
+const createRenderErrorCapture = (label: string) => {
+  let captured: ConversionError | null = null;
+  return {
+    wrap: (element: React.ReactNode, key?: string) =>
+      React.createElement(RenderErrorBoundary, {
+        key,
+        onError: (error: unknown, componentStack: string | null) => {
+          captured ??= error instanceof TimeoutError
+            ? error
+            : new RuntimeError(`${label}: ${(error as Error)?.message || error}`, error, componentStack);
+        },
+      }, element),
+    rethrow: () => {
+      if (captured) throw captured;
+    },
+  };
+};
+
+/**
+ * Runs an interaction with the rendered component and flushes the updates it causes. Errors
+ * thrown by event handlers, which React reports to the window instead of the caller, are
+ * raised too, as a RuntimeError prefixed with `label`.
+ */
+const runInteraction = <T,>(action: () => T, label: string): T => {
+  let handlerError: unknown = null;
+  const onHandlerError = (event: ErrorEvent) => {
+    handlerError ??= event.error ?? event.message;
+    event.preventDefault();
+  };
+  window.addEventListener('error', onHandlerError);
+  try {
+    const result = flushSync(action);
+    if (handlerError) throw handlerError;
+    return result;
+  } catch (err: any) {
+    if (err instanceof TimeoutError) throw err;
+    throw new RuntimeError(`${label}: ${err?.message || err}`, err);
+  } finally {
+    window.removeEventListener('error', onHandlerError);
+  }
+};
+
+/**
+ * Renders each component export in turn and captures one page per export
+ */
+const captureComponentExports = async (
+  root: ReactDOM.Root,
+  container: HTMLElement,
+  format: ExportFormat,
+  title: string,
+  options: {
+    components: { name: string; component: React.ComponentType<any>; props: Record<string, any>; notes?: string }[];
+    stageCss: string;
+    decorators: Decorator[];
+    readiness: ReadinessTracker;
+    diagnostics: LayoutDiagnostics;
+  }
+): Promise<DocumentLayout> => {
+  const { components, stageCss, decorators, readiness, diagnostics } = options;
+  const pages: PageLayout[] = [];
+
+  for (const { name, component, props, notes } of components) {
+    startPageBudget();
+    const renderErrors = createRenderErrorCapture(`Render failed for export ${name}`);
+    readiness.reset();
+    try {
+      flushSync(() => {
+        root.render(renderErrors.wrap(applyDecorators(React.createElement(component, props), decorators, props), name));
+      });
+    } catch (err: any) {
+      if (err instanceof TimeoutError) throw err;
+      throw new RuntimeError(`Render failed for export ${name}: ${err?.message || err}`, err);
+    }
+    await settleLayout(container, readiness);
+    renderErrors.rethrow();
+    const exportLayout = await extractLayoutEnhanced(container, format, title, { forceSinglePage: true });
+    const page = exportLayout.pages[0];
+    page.snapshot = buildSnapshot(container, stageCss, page.bgColor);
+    pages.push({ ...page, pageNumber: pages.length + 1, ...(notes ? { notes } : {}) });
+    diagnostics.exports?.rendered.push(name);
   }
+
+  return {
+    title,
+    summary: `${pages.length} component export${pages.length > 1 ? 's' : ''} captured offline`,
+    pages,
+  };
+};
+
+/**
+ * Renders the component once per dataset row and captures one page per row.
+ * A row that throws is reported in diagnostics and skipped instead of aborting the merge.
+ */
+const captureDatasetRows = async (
+  root: ReactDOM.Root,
+  container: HTMLElement,
+  format: ExportFormat,
+  title: string,
+  options: {
+    component: React.ComponentType<any>;
+    baseProps: Record<string, any>;
+    rows: DatasetRow[];
+    stageCss: string;
+    maxRows: number;
+    decorators: Decorator[];
+    readiness: ReadinessTracker;
+    diagnostics: LayoutDiagnostics;
+  }
+): Promise<DocumentLayout> => {
+  const { component, baseProps, rows, stageCss, maxRows, decorators, readiness, diagnostics } = options;
+  const pages: PageLayout[] = [];
+  const errors: DatasetRowError[] = [];
+
+  for (const [index, row] of rows.slice(0, maxRows).entries()) {
+    startPageBudget();
+    const rowProps = { ...baseProps, ...row };
+    const label = `Row ${index + 1} failed to render`;
+    const rowErrors = createRenderErrorCapture(label);
+    readiness.reset();
+    try {
+      flushSync(() => {
+        root.render(rowErrors.wrap(applyDecorators(React.createElement(component, rowProps), decorators, rowProps), String(index)));
+      });
+      await settleLayout(container, readiness);
+      rowErrors.rethrow();
+    } catch (err: any) {
+      // Later rows would run against the same spent budget
+      if (err instanceof TimeoutError) throw err;
+      const rowError = err instanceof ConversionError ? err : new RuntimeError(`${label}: ${err?.message || err}`, err);
+      errors.push({
+        row: index + 1,
+        message: rowError.message,
+        location: rowError.location,
+        componentStack: rowError.componentStack,
+      });
+      continue;
+    }
+
+    const rowLayout = await extractLayoutEnhanced(container, format, title, { forceSinglePage: true });
+    const page = rowLayout.pages[0];
+    page.snapshot = buildSnapshot(container, stageCss, page.bgColor);
+    pages.push({ ...page, pageNumber: pages.length + 1 });
+  }
+
+  diagnostics.dataset = { rows: rows.length, rendered: pages.length, errors };
+  errors.forEach(({ message, location }) => {
+    diagnostics.warnings.push(location ? `${message} (${location.file.replace(/^\//, '')}:${location.line}:${location.column})` : message);
+  });
+  if (rows.length > maxRows) {
+    diagnostics.warnings.push(`Dataset has ${rows.length} rows; only the first ${maxRows} were rendered.`);
+  }
+  if (pages.length === 0) {
+    const error = new RuntimeError(`Render failed for every dataset row. ${errors[0]?.message ?? 'No output.'}`, null);
+    error.location = errors[0]?.location;
+    error.componentStack = errors[0]?.componentStack;
+    throw error;
+  }
+
+  return {
+    title,
+    summary: `${pages.length} of ${Math.min(rows.length, maxRows)} record${rows.length > 1 ? 's' : ''} merged offline`,
+    pages,
+  };
+};
+
+/**
+ * Captures one page per slide state of a stateful multi-slide component.
+ * Tries a `slides` export first, then a `useSlideCapture` controller, then a "next" control.
+ */
+const captureSlideStates = async (
+  root: ReactDOM.Root,
+  container: HTMLElement,
+  format: ExportFormat,
+  title: string,
+  options: {
+    exportsObj: Record<string, any>;
+    registry: SlideCaptureRegistry;
+    /** The mounted root element, re-rendered as is to swap in each state's error boundary */
+    element: React.ReactNode;
+    stageCss: string;
+    maxStates: number;
+    decorators: Decorator[];
+    readiness: ReadinessTracker;
+    diagnostics: LayoutDiagnostics;
+  }
+): Promise<DocumentLayout> => {
+  const { exportsObj, registry, element, stageCss, maxStates, decorators, readiness, diagnostics } = options;
+  const states: PageLayout[] = [];
+
+  const capturePage = async () => {
+    const stateLayout = await extractLayoutEnhanced(container, format, title, { forceSinglePage: true });
+    const page = stateLayout.pages[0];
+    page.snapshot = buildSnapshot(container, stageCss, page.bgColor);
+    states.push(page);
+  };
+
+  /** Settles the stage, raises errors the state threw while rendering, then captures it */
+  const captureState = async (stateErrors: ReturnType<typeof createRenderErrorCapture>) => {
+    await settleLayout(container, readiness);
+    stateErrors.rethrow();
+    await capturePage();
+  };
+
+  /**
+   * Starts a state of the mounted component. Re-rendering the same element swaps in a fresh
+   * error boundary without remounting, so errors are attributed to the state that threw them.
+   */
+  const beginState = () => {
+    const stateErrors = createRenderErrorCapture(`Render failed on slide ${states.length + 1}`);
+    render(() => root.render(stateErrors.wrap(element)));
+    return stateErrors;
+  };
+
+  const render = (action: () => void) => runInteraction(action, `Render failed on slide ${states.length + 1}`);
+
+  let strategy: SlideStateStrategy | null = null;
+  const exportedSlides = getExportedSlides(exportsObj);
+
+  if (exportedSlides.length > 0) {
+    strategy = 'slides-export';
+    for (const slide of exportedSlides.slice(0, maxStates)) {
+      startPageBudget();
+      const slideErrors = createRenderErrorCapture(`Render failed on slide ${states.length + 1}`);
+      readiness.reset();
+      render(() => root.render(slideErrors.wrap(applyDecorators(slide, decorators, slide.props), String(states.length))));
+      slideErrors.rethrow();
+      await captureState(slideErrors);
+    }
+  } else if (registry.controller && registry.controller.count > 0) {
+    strategy = 'controller';
+    const count = Math.min(registry.controller.count, maxStates);
+    for (let index = 0; index < count; index++) {
+      startPageBudget();
+      const stateErrors = beginState();
+      readiness.reset();
+      render(() => registry.controller?.goTo(index));
+      stateErrors.rethrow();
+      await captureState(stateErrors);
+    }
+  } else {
+    await captureState(beginState());
+    const seen = new Set([getDomSignature(container)]);
+    let next = findNextControl(container);
+    while (next && states.length < maxStates) {
+      strategy = 'next-control';
+      startPageBudget();
+      const stateErrors = beginState();
+      const control = next;
+      readiness.reset();
+      render(() => control.click());
+      await settleLayout(container, readiness);
+      stateErrors.rethrow();
+      const signature = getDomSignature(container);
+      if (seen.has(signature)) break;
+      seen.add(signature);
+      await capturePage();
+      next = findNextControl(container);
+    }
+  }
+
+  if (!strategy) {
+    diagnostics.warnings.push('Slide state capture found no slides export, useSlideCapture controller, or "next" control; captured the initial state only.');
+  }
+  diagnostics.slideStates = { strategy: strategy || 'none', count: states.length };
+
+  const pages = states.map((page, index) => ({ ...page, pageNumber: index + 1 }));
+  return {
+    title,
+    summary: `${pages.length} slide state${pages.length > 1 ? 's' : ''} captured offline`,
+    pages,
+  };
+};
+
+/**
+ * Replays a capture script against the mounted component, capturing the initial state
+ * and one page after each step. Steps whose target is missing are reported and skipped.
+ */
+const captureScriptSteps = async (
+  container: HTMLElement,
+  format: ExportFormat,
+  title: string,
+  options: {
+    steps: CaptureStep[];
+    /** Error capture around the mounted component; render errors a step causes surface after it settles */
+    renderErrors: ReturnType<typeof createRenderErrorCapture>;
+    stageCss: string;
+    maxPages: number;
+    readiness: ReadinessTracker;
+    diagnostics: LayoutDiagnostics;
+  }
+): Promise<DocumentLayout> => {
+  const { steps, renderErrors, stageCss, maxPages, readiness, diagnostics } = options;
+  const pages: PageLayout[] = [];
+  const failed: string[] = [];
+
+  const capturePage = async (notes: string) => {
+    await settleLayout(container, readiness);
+    renderErrors.rethrow();
+    const stepLayout = await extractLayoutEnhanced(container, format, title, { forceSinglePage: true });
+    const page = stepLayout.pages[0];
+    page.snapshot = buildSnapshot(container, stageCss, page.bgColor);
+    pages.push({ ...page, pageNumber: pages.length + 1, notes });
+  };
+
+  await capturePage('Initial state');
+  for (const [index, step] of steps.entries()) {
+    startPageBudget();
+    if (pages.length >= maxPages) {
+      diagnostics.warnings.push(`Capture script stopped at the ${maxPages} page limit before step ${index + 1}.`);
+      break;
+    }
+    const label = `Step ${index + 1}: ${describeCaptureStep(step)}`;
+    readiness.reset();
+    const problem = runInteraction(() => runCaptureStep(container, step), `Capture script step ${index + 1} failed`);
+    if (problem) {
+      failed.push(`${label} (${problem})`);
+      continue;
+    }
+    await capturePage(label);
+  }
+
+  if (failed.length > 0) {
+    diagnostics.warnings.push(`Skipped ${failed.length} capture script step${failed.length > 1 ? 's' : ''}: ${failed.join('; ')}.`);
+  }
+  diagnostics.captureScript = { steps: steps.length, captured: pages.length, failed };
+
+  return {
+    title,
+    summary: `${pages.length - 1} build step${pages.length === 2 ? '' : 's'} captured offline`,
+    pages,
+  };
+};
+
+/**
+ * Collects the wrappers for the rendered component: the entry module's `decorators` and
+ * `providers` exports wrap it first, then those of the project's tsx2slides.config file
+ */
+const loadDecorators = (
+  exportsObj: Record<string, any>,
+  project: ProjectContext | undefined,
+  entryPath: string | null | undefined,
+  require: (moduleName: string) => any,
+  diagnostics: LayoutDiagnostics
+): Decorator[] => {
+  const warn = (message: string) => diagnostics.warnings.push(message);
+  const decorators = readDecorators(exportsObj, entryPath?.replace(/^\//, '') || 'The entry module', warn);
+  const configPath = findDecoratorConfigPath(Object.keys(project?.files || {}).filter((path) => !isVendoredPath(path)));
+  let configDecorators: Decorator[] = [];
+  if (configPath && configPath !== entryPath) {
+    try {
+      const loaded = require(configPath);
+      const config = loaded?.default && !Array.isArray(loaded.default) && typeof loaded.default === 'object' ? loaded.default : loaded;
+      configDecorators = readDecorators(config || {}, configPath.replace(/^\//, ''), warn);
+    } catch (err: any) {
+      if (err instanceof TimeoutError) throw err;
+      warn(`Failed to load ${configPath.replace(/^\//, '')}: ${err?.message || err}. Rendering without its decorators.`);
+    }
+  }
+  decorators.push(...configDecorators);
+  if (decorators.length > 0) {
+    diagnostics.decorators = { count: decorators.length, configPath: configDecorators.length > 0 ? configPath! : undefined };
+  }
+  return decorators;
+};
+
+/**
+ * Generates Tailwind CSS for the utilities used across the entry and project sources.
+ * Runs when the project ships a tailwind.config, its CSS uses Tailwind directives,
+ * className is used without any project CSS, or an HTML page loads the Tailwind CDN.
+ */
+const buildTailwindCss = (
+  content: string,
+  project: ProjectContext | undefined,
+  diagnostics: LayoutDiagnostics,
+  require: (moduleName: string) => any,
+  force = false
+) => {
+  const files = project?.files || {};
+  const configPath = findTailwindConfigPath(Object.keys(files).filter((path) => !isVendoredPath(path)));
+  const enabled = force || Boolean(configPath) || cssUsesTailwind(project?.cssText) || (diagnostics.usedClassName && !diagnostics.hasCss);
+  if (!enabled) return null;
+
+  let config: TailwindConfig | undefined;
+  if (configPath) {
+    try {
+      const loaded = require(configPath);
+      config = (loaded?.default ?? loaded) as TailwindConfig;
+    } catch (err: any) {
+      diagnostics.warnings.push(`Failed to load ${configPath.replace(/^\//, '')}: ${err?.message || err}. Using the default Tailwind theme.`);
+    }
+  }
+
+  const sources = [
+    content,
+    ...Object.values(files)
+      .filter((file) => file.kind === 'text' && !isVendoredPath(file.path) && /\.(tsx|ts|jsx|js|mdx|html)$/.test(file.path))
+      .map((file) => file.content),
+  ];
+  const result = generateTailwindCss(collectTailwindCandidates(sources), config, { rootSelector: '#analysis-stage' });
+  if (result.matched.length === 0) return null;
+
+  diagnostics.hasCss = true;
+  diagnostics.tailwind = {
+    utilities: result.matched.length,
+    configPath: configPath || undefined,
+  };
+
+  return {
+    base: result.base,
+    utilities: result.utilities,
+    projectCss: expandTailwindApply(project?.cssText || '', config),
+  };
 };
 
 /**
@@ -326,13 +1118,19 @@ const countPseudoElements = (container: HTMLElement): number => {
 };
 
 const buildSnapshot = (container: HTMLElement, cssText: string | undefined, bgColor: string): RenderSnapshot => {
-  const html = container.innerHTML;
+  // The raster fallback renders the snapshot anew, where animations would restart
+  const frozen = animationCapture === 'first-frame'
+    ? { html: container.innerHTML, css: '' }
+    : freezeSnapshotAnimations(container, animationCapture);
+  // The stage element is sized to the requested stage, so it reports its own dimensions
+  const width = container.offsetWidth;
+  const height = container.offsetHeight;
   return {
-    html,
-    cssText: cssText || '',
-    width: CONTAINER_WIDTH,
-    height: CONTAINER_HEIGHT,
-    contentHeight: container.scrollHeight || CONTAINER_HEIGHT,
+    html: frozen.html,
+    cssText: [cssText || '', frozen.css].filter(Boolean).join('\n'),
+    width,
+    height,
+    contentHeight: container.scrollHeight || height,
     bgColor,
   };
 };
@@ -358,6 +1156,7 @@ const convertToLegacyFormat = (item: LayoutItem): LayoutElement => {
       align: textItem.align,
       lineHeight: textItem.lineHeight,
       isLine: textItem.isLine,
+      animation: item.animation,
     };
   }
 
@@ -375,6 +1174,7 @@ const convertToLegacyFormat = (item: LayoutItem): LayoutElement => {
       color: '#000000',
       bgColor: '#ffffff',
       strokeWidthPx: 0,
+      animation: item.animation,
     } as LayoutElement & { imageData?: string; imageFormat?: string };
   }
 
@@ -401,21 +1201,22 @@ const convertToLegacyFormat = (item: LayoutItem): LayoutElement => {
       color: shapeItem.shadow.color,
       inset: shapeItem.shadow.inset,
     } : undefined,
+    animation: item.animation,
   };
 };
 
 // rgbToHex removed and imported from colorUtils
 
 /**
- * Transpiles TSX content to JavaScript
+ * Transpiles TSX content to JavaScript with a source map
  */
-const transpileTsx = (content: string, sourceName?: string | null) => {
+const transpileTsx = (content: string, sourceName?: string | null): TranspiledModule => {
   const primaryName = sourceName || 'inline.tsx';
   const fallbackName = primaryName.match(/\.tsx$|\.jsx$/i)
     ? null
     : `${primaryName.replace(/\.[^.]+$/, '')}.tsx`;
   const candidates = [primaryName, fallbackName].filter(Boolean) as string[];
-  const errors: string[] = [];
+  const errors: TranspileError[] = [];
 
   // First attempt a light sanitization for common JSX text mistakes (e.g., leading ">" in text nodes)
   const sanitizedContent = sanitizeCommonJsxText(content);
@@ -433,6 +1234,7 @@ const transpileTsx = (content: string, sourceName?: string | null) => {
       useDefineForClassFields: false,
       esModuleInterop: true,
       allowSyntheticDefaultImports: true,
+      sourceMap: true,
     };
 
     const result = ts.transpileModule(content, {
@@ -441,6 +1243,7 @@ const transpileTsx = (content: string, sourceName?: string | null) => {
       },
       fileName,
       reportDiagnostics: true,
+      transformers: { before: [guardLoops] },
     });
 
     // If the first pass fails and we modified the source, retry with the sanitized version
@@ -452,11 +1255,15 @@ const transpileTsx = (content: string, sourceName?: string | null) => {
           },
           fileName,
           reportDiagnostics: true,
+          transformers: { before: [guardLoops] },
         })
         : result;
 
     if (!finalResult.diagnostics || finalResult.diagnostics.length === 0) {
-      return finalResult.outputText;
+      return {
+        code: finalResult.outputText.replace(/\n\/\/# sourceMappingURL=.*\s*$/, ''),
+        sourceMap: finalResult.sourceMapText,
+      };
     }
 
     const first = finalResult.diagnostics[0];
@@ -464,17 +1271,71 @@ const transpileTsx = (content: string, sourceName?: string | null) => {
     const suggestion = buildFriendlyHint(message, first);
     if (first.file && typeof first.start === 'number') {
       const { line, character } = ts.getLineAndCharacterOfPosition(first.file, first.start);
-      const lineText = first.file.text.split(/\r?\n/)[line] || '';
-      errors.push(
-        `TSX parse error: ${message} (at ${fileName}:${line + 1}:${character + 1})\n> ${line + 1
-        } | ${lineText.trimEnd()}${suggestion ? `\nSuggestion: ${suggestion}` : ''}`,
-      );
+      errors.push(new TranspileError(`TSX parse error: ${message}`, {
+        file: fileName,
+        line: line + 1,
+        column: character + 1,
+        codeFrame: buildCodeFrame(first.file.text, line + 1, character + 1, first.length),
+      }, suggestion || undefined));
     } else {
-      errors.push(`TSX parse error: ${message}${suggestion ? `\nSuggestion: ${suggestion}` : ''}`);
+      errors.push(new TranspileError(`TSX parse error: ${message}`, undefined, suggestion || undefined));
     }
   }
 
-  throw new Error(errors[0] || 'TSX parse error: Unknown issue');
+  throw errors[0] || new TranspileError('TSX parse error: Unknown issue');
+};
+
+/**
+ * Inserts a loop guard call at the top of every loop body, so a runaway loop throws
+ * a TimeoutError instead of blocking the render sandbox
+ */
+const guardLoops: ts.TransformerFactory<ts.SourceFile> = (context) => {
+  const { factory } = context;
+  const withGuard = (body: ts.Statement) => {
+    const guard = factory.createExpressionStatement(
+      factory.createCallExpression(factory.createIdentifier(LOOP_GUARD), undefined, [])
+    );
+    return ts.isBlock(body)
+      ? factory.updateBlock(body, [guard, ...body.statements])
+      : factory.createBlock([guard, body], true);
+  };
+  const visit = (node: ts.Node): ts.Node => {
+    const visited = ts.visitEachChild(node, visit, context);
+    if (ts.isWhileStatement(visited)) {
+      return factory.updateWhileStatement(visited, visited.expression, withGuard(visited.statement));
+    }
+    if (ts.isDoStatement(visited)) {
+      return factory.updateDoStatement(visited, withGuard(visited.statement), visited.expression);
+    }
+    if (ts.isForStatement(visited)) {
+      return factory.updateForStatement(visited, visited.initializer, visited.condition, visited.incrementor, withGuard(visited.statement));
+    }
+    if (ts.isForOfStatement(visited)) {
+      return factory.updateForOfStatement(visited, visited.awaitModifier, visited.initializer, visited.expression, withGuard(visited.statement));
+    }
+    if (ts.isForInStatement(visited)) {
+      return factory.updateForInStatement(visited, visited.initializer, visited.expression, withGuard(visited.statement));
+    }
+    return visited;
+  };
+  return (sourceFile) => ts.visitNode(sourceFile, visit) as ts.SourceFile;
+};
+
+/**
+ * Compiles a module runner named after its source path so that stack frames
+ * can be mapped back to the original file through the registered source map,
+ * and binds it to the current render's clock globals
+ */
+const compileRunner = (filePath: string, source: string, transpiled: TranspiledModule): Function => {
+  const sourceUrl = toSourceUrl(filePath);
+  registerSourceMap(filePath, source, transpiled.sourceMap);
+  const runnerKey = hashString(`${sourceUrl}:${transpiled.code}`);
+  if (runnerCache.size > MAX_RUNNER_CACHE) runnerCache.clear();
+  // The runner header shares the first line with the code so source-map line numbers still match
+  const bindClock = runnerCache.get(runnerKey) ??
+    new Function(...CLOCK_GLOBALS, `return function (${RUNNER_PARAMS.join(', ')}) {${transpiled.code}\n};\n//# sourceURL=${sourceUrl}`);
+  runnerCache.set(runnerKey, bindClock);
+  return bindClock(...clockGlobals);
 };
 
 /**
@@ -518,10 +1379,35 @@ const buildFriendlyHint = (message: string, diagnostic: ts.Diagnostic) => {
 /**
  * Creates a require function for module resolution
  */
-const createRequire = (project: ProjectContext | undefined, diagnostics: LayoutDiagnostics, entryName?: string | null) => {
+const createRequire = (
+  project: ProjectContext | undefined,
+  diagnostics: LayoutDiagnostics,
+  entryName?: string | null,
+  options: {
+    /** React module handed to user code, in place of the app's own */
+    react?: typeof React;
+    runtimeModules?: Record<string, any>;
+    onCss?: (filePath: string, css: string) => void;
+  } = {}
+) => {
+  const { react = React, runtimeModules = {}, onCss } = options;
   const cache: Record<string, any> = {};
   const files = project?.files || {};
   const entryPath = entryName ? normalizePath(entryName) : project?.entryPath;
+  const packages = createPackageResolver(files, (basePath) => resolveWithExtensions(basePath, files));
+  const aliases = createPathAliasResolver(files);
+  if (aliases.error) diagnostics.warnings.push(aliases.error);
+
+  const recordPackage = (diagnostic: PackageDiagnostic) => {
+    const recorded = diagnostics.packages ?? (diagnostics.packages = []);
+    const index = recorded.findIndex((entry) => entry.name === diagnostic.name);
+    if (index !== -1 && (diagnostic.status === 'resolved' || recorded[index].status !== 'resolved')) return;
+    if (index !== -1) recorded.splice(index, 1);
+    recorded.push(diagnostic);
+    if (diagnostic.status === 'unresolved-entry' || diagnostic.status === 'failed') {
+      diagnostics.warnings.push(`Package ${diagnostic.name}: ${diagnostic.message}. Its imports are mocked.`);
+    }
+  };
 
   const resolveModule = (moduleName: string, fromPath?: string): string | null => {
     if (moduleName.startsWith('.') || moduleName.startsWith('/')) {
@@ -530,6 +1416,11 @@ const createRequire = (project: ProjectContext | undefined, diagnostics: LayoutD
       return resolveWithExtensions(resolved, files);
     }
 
+    // tsconfig/jsconfig `paths` aliases (e.g. `@/components`) and `baseUrl` lookups
+    for (const candidate of aliases.candidates(moduleName)) {
+      const resolved = resolveWithExtensions(candidate, files);
+      if (resolved) return resolved;
+    }
     return null;
   };
 
@@ -545,25 +1436,75 @@ const createRequire = (project: ProjectContext | undefined, diagnostics: LayoutD
         cache[filePath] = module.exports;
         return module.exports;
       } catch (err) {
-        throw new Error(`Failed to parse JSON module ${filePath}: ${String(err)}`);
+        throw new TranspileError(`Failed to parse JSON module ${filePath}: ${String(err)}`, { file: filePath, line: 1, column: 1 });
       }
     }
-    const transpiled = transpileTsx(file.content, filePath);
-    const runnerKey = hashString(`${filePath}:${transpiled}`);
-    const runner = runnerCache.get(runnerKey) ?? new Function('require', 'module', 'exports', 'React', 'ReactDOM', transpiled);
-    runnerCache.set(runnerKey, runner);
+    const transpileKey = `${filePath}:${hashString(file.content)}`;
+    const transpiled = transpileCache.get(transpileKey) ?? transpileTsx(file.content, filePath);
+    transpileCache.set(transpileKey, transpiled);
     const localRequire = (mod: string) => requireWithContext(mod, filePath);
-    runner(localRequire, module, module.exports, React, ReactDOM);
+    // Expose the exports object early so circular imports (common in packages) see partial exports
+    cache[filePath] = module.exports;
+    try {
+      const runner = compileRunner(filePath, file.content, transpiled);
+      runner(localRequire, module, module.exports, react, ReactDOM, MODULE_PROCESS, globalThis, loopGuard);
+    } catch (err) {
+      delete cache[filePath];
+      throw err;
+    }
     cache[filePath] = module.exports;
     return module.exports;
   };
 
+  const loadCssModule = (filePath: string): Record<string, string> | null => {
+    if (cache[filePath]) return cache[filePath];
+    const file = files[filePath];
+    if (!file || file.kind !== 'text') return null;
+
+    // Register before transforming so circular `composes` references terminate
+    cache[filePath] = {};
+    const { css, classMap } = transformCssModule(file.content, filePath, {
+      resolveComposes: (specifier) => {
+        const target = resolveModule(specifier, filePath);
+        return target && isCssModulePath(target) ? loadCssModule(target) : null;
+      },
+      resolveUrl: (url) => {
+        const target = resolveModule(url, filePath);
+        return target && isAssetFile(target, files) ? files[target].content : null;
+      },
+    });
+    cache[filePath] = classMap;
+    onCss?.(filePath, css);
+    return classMap;
+  };
+
+  const loadPackageFile = (filePath: string) => {
+    if (isCssModulePath(filePath)) return loadCssModule(filePath);
+    if (filePath.endsWith('.css')) {
+      // Stylesheets imported from packages are injected once, like a bundler would
+      if (!cache[filePath]) {
+        cache[filePath] = {};
+        onCss?.(filePath, files[filePath].content);
+      }
+      return null;
+    }
+    if (isAssetFile(filePath, files)) return files[filePath].content;
+    return loadModule(filePath) ?? undefined;
+  };
+
   const requireWithContext = (moduleName: string, fromPath?: string) => {
-    if (moduleName === 'react') return React;
-    if (moduleName === 'react-dom' || moduleName === 'react-dom/client') return ReactDOM;
+    if (moduleName === 'react') return react;
+    if (moduleName === 'react/jsx-runtime' || moduleName === 'react/jsx-dev-runtime') return ReactJsxRuntime;
+    if (moduleName === 'react-dom') return REACT_DOM_MODULE;
+    if (moduleName === 'react-dom/client') return ReactDOM;
+    if (TAILWIND_MODULES[moduleName]) return TAILWIND_MODULES[moduleName];
+    if (runtimeModules[moduleName]) return runtimeModules[moduleName];
+    const bundled = getBundledLibrary(moduleName);
+    if (bundled) return bundled;
 
     const resolved = resolveModule(moduleName, fromPath || entryPath || undefined);
     if (resolved) {
+      if (isCssModulePath(resolved)) return loadCssModule(resolved);
       if (resolved.endsWith('.css')) return null;
       if (isAssetFile(resolved, files)) {
         return files[resolved].content;
@@ -572,6 +1513,21 @@ const createRequire = (project: ProjectContext | undefined, diagnostics: LayoutD
       if (loaded) return loaded;
     }
 
+    if (!resolved && !moduleName.startsWith('.') && !moduleName.startsWith('/')) {
+      const { path, diagnostic } = packages.resolve(moduleName, fromPath || entryPath || undefined);
+      if (path) {
+        try {
+          const loaded = loadPackageFile(path);
+          recordPackage(diagnostic);
+          if (loaded !== undefined) return loaded;
+        } catch (err: any) {
+          recordPackage({ ...diagnostic, status: 'failed', message: `${path} threw while loading: ${err?.message || err}` });
+        }
+      } else {
+        recordPackage(diagnostic);
+      }
+    }
+
     if (!diagnostics.missingImports.includes(moduleName)) {
       diagnostics.missingImports.push(moduleName);
     }
@@ -613,8 +1569,13 @@ const createMockLibrary = (_moduleName: string) => {
 };
 
 const normalizePath = (value: string) => {
-  const cleaned = value.replace(/\\/g, '/').replace(/^\.\/+/, '').replace(/^\/+/, '');
-  return cleaned ? `/${cleaned}` : '/';
+  const segments: string[] = [];
+  value.replace(/\\/g, '/').split('/').forEach((segment) => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return `/${segments.join('/')}`;
 };
 
 const joinPath = (base: string, next: string) => {
@@ -625,6 +1586,8 @@ const joinPath = (base: string, next: string) => {
 
 const dirname = (filePath: string) => filePath.split('/').slice(0, -1).join('/');
 
+const INDEX_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs'];
+
 const resolveWithExtensions = (basePath: string, files: ProjectContext['files']) => {
   const candidates = [
     basePath,
@@ -632,6 +1595,8 @@ const resolveWithExtensions = (basePath: string, files: ProjectContext['files'])
     `${basePath}.ts`,
     `${basePath}.jsx`,
     `${basePath}.js`,
+    `${basePath}.mjs`,
+    `${basePath}.cjs`,
     `${basePath}.css`,
     `${basePath}.json`,
     `${basePath}.svg`,
@@ -640,6 +1605,8 @@ const resolveWithExtensions = (basePath: string, files: ProjectContext['files'])
     `${basePath}.jpeg`,
     `${basePath}.gif`,
     `${basePath}.webp`,
+    // Directory imports resolve to the directory's index module
+    ...INDEX_EXTENSIONS.map((ext) => `${basePath}/index${ext}`),
   ];
   for (const candidate of candidates) {
     if (files[normalizePath(candidate)]) {
@@ -654,10 +1621,32 @@ const isAssetFile = (filePath: string, files: ProjectContext['files']) => {
   return file && file.kind === 'binary';
 };
 
+/**
+ * Resolves a single story of a CSF module by its export name
+ */
+const resolveStory = (stories: { name: string; component: any }[], exportName: string) => {
+  const story = stories.find(({ name }) => name === exportName);
+  if (!story) {
+    const available = stories.map(({ name }) => name);
+    throw new NoComponentExportError(`Story "${exportName}" not found. Stories: ${available.join(', ')}.`, available);
+  }
+  return story.component;
+};
+
 /**
  * Resolves the React component from exports
  */
-const resolveComponent = (exportsObj: Record<string, any>) => {
+const resolveComponent = (exportsObj: Record<string, any>, exportName?: string) => {
+  if (exportName) {
+    if (!isComponentExport(exportsObj[exportName])) {
+      const available = collectComponentExports(exportsObj).map(({ name }) => name);
+      throw new NoComponentExportError(
+        `Export "${exportName}" is not a React component.${available.length ? ` Component exports: ${available.join(', ')}.` : ''}`,
+        available
+      );
+    }
+    return exportsObj[exportName];
+  }
   if (typeof exportsObj.default === 'function') return exportsObj.default;
   const firstFn = Object.values(exportsObj).find((value) => typeof value === 'function');
   return firstFn;
@@ -0,0 +1,82 @@
+/**
+ * Mail Merge Service
+ *
+ * Parses CSV/JSON datasets into rows of props so a template can be rendered
+ * once per row.
+ */
+
+export type DatasetRow = Record<string, any>;
+
+/**
+ * Parses RFC 4180 style CSV: the first row holds the column names, quoted
+ * fields may contain commas, newlines and doubled quotes.
+ */
+export const parseCsv = (text: string): DatasetRow[] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter((row) => row.some((value) => value.trim() !== ''));
+  if (!header) return [];
+  const columns = header.map((name) => name.trim());
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, index) => [column, row[index] ?? '']))
+  );
+};
+
+/**
+ * Parses a dataset file. JSON may be an array of objects or an object with a
+ * `rows`, `records` or `data` array; anything else is read as CSV.
+ */
+export const parseDataset = (text: string, fileName: string): DatasetRow[] => {
+  if (!/\.json$/i.test(fileName)) return parseCsv(text);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`Invalid JSON in ${fileName}: ${err?.message || err}`);
+  }
+  const rows = Array.isArray(parsed) ? parsed : parsed?.rows ?? parsed?.records ?? parsed?.data;
+  if (!Array.isArray(rows)) {
+    throw new Error(`${fileName} must contain an array of records (or an object with a "rows" array).`);
+  }
+  const invalid = rows.findIndex((row) => !row || typeof row !== 'object' || Array.isArray(row));
+  if (invalid !== -1) {
+    throw new Error(`Record ${invalid + 1} in ${fileName} is not an object.`);
+  }
+  return rows;
+};
@@ -0,0 +1,338 @@
+/**
+ * Markdown Deck Service
+ *
+ * Compiles a Markdown or MDX deck into a TSX module with one component per slide,
+ * so it can run through the regular layout pipeline. Slides are separated by `---`
+ * lines and a `Note:` line starts the speaker notes of a slide. MDX decks may import
+ * project components and use them as JSX blocks.
+ */
+
+import { ProjectContext } from '../types';
+
+export interface MarkdownDeck {
+  /** Generated TSX module exporting `Slide1`…`SlideN` */
+  code: string;
+  slides: { name: string; notes?: string }[];
+  /** Relative image references that could not be found in the project */
+  missingAssets: string[];
+}
+
+const SLIDE_STYLES = `const S: Record<string, React.CSSProperties> = {
+  slide: { width: '100vw', height: '100vh', padding: '64px 80px', boxSizing: 'border-box', display: 'flex', flexDirection: 'column', gap: '20px', backgroundColor: '#ffffff', color: '#111827', fontFamily: 'Arial, sans-serif', overflow: 'hidden' },
+  titleSlide: { justifyContent: 'center', alignItems: 'center', textAlign: 'center' },
+  h1: { fontSize: '60px', fontWeight: 700, margin: 0, lineHeight: 1.15 },
+  h2: { fontSize: '44px', fontWeight: 700, margin: 0, lineHeight: 1.2 },
+  h3: { fontSize: '34px', fontWeight: 600, margin: 0 },
+  h4: { fontSize: '28px', fontWeight: 600, margin: 0 },
+  h5: { fontSize: '24px', fontWeight: 600, margin: 0 },
+  h6: { fontSize: '22px', fontWeight: 600, margin: 0, color: '#4b5563' },
+  p: { fontSize: '28px', lineHeight: 1.45, margin: 0 },
+  ul: { fontSize: '28px', lineHeight: 1.45, margin: 0, paddingLeft: '40px' },
+  ol: { fontSize: '28px', lineHeight: 1.45, margin: 0, paddingLeft: '40px' },
+  li: { margin: '6px 0' },
+  blockquote: { margin: 0, padding: '8px 24px', borderLeft: '6px solid #d1d5db', color: '#4b5563' },
+  pre: { margin: 0, padding: '20px 24px', borderRadius: '10px', backgroundColor: '#f3f4f6', fontSize: '20px', lineHeight: 1.5, whiteSpace: 'pre-wrap' },
+  code: { fontFamily: 'Courier New, monospace', backgroundColor: '#f3f4f6', padding: '2px 6px', borderRadius: '4px' },
+  a: { color: '#2563eb', textDecoration: 'underline' },
+  img: { maxWidth: '100%', maxHeight: '480px', objectFit: 'contain', alignSelf: 'center' },
+  hr: { width: '100%', border: 'none', borderTop: '2px solid #e5e7eb', margin: 0 },
+  table: { borderCollapse: 'collapse', fontSize: '22px' },
+  th: { border: '1px solid #d1d5db', padding: '8px 14px', backgroundColor: '#f3f4f6', textAlign: 'left' },
+  td: { border: '1px solid #d1d5db', padding: '8px 14px' },
+};`;
+
+const isExternal = (ref: string) => /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i.test(ref);
+
+const resolvePath = (fromDir: string, ref: string) => {
+  const segments: string[] = [];
+  const target = ref.split(/[?#]/)[0];
+  (target.startsWith('/') ? target : `${fromDir}/${target}`).split('/').forEach((segment) => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return `/${segments.join('/')}`;
+};
+
+const text = (value: string) => (value ? `{${JSON.stringify(value)}}` : '');
+
+/**
+ * Checks whether a file is a Markdown or MDX deck
+ */
+export const isMarkdownPath = (filePath?: string | null) => /\.(md|mdx|markdown)$/i.test(filePath || '');
+
+/**
+ * Converts inline Markdown (code, images, links, emphasis, line breaks) to JSX
+ */
+const renderInline = (source: string, mdx: boolean): string => {
+  const patterns: { regex: RegExp; render: (match: RegExpExecArray) => string }[] = [
+    { regex: /`([^`]+)`/, render: (m) => `<code style={S.code}>${text(m[1])}</code>` },
+    {
+      regex: /!\[([^\]]*)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/,
+      render: (m) => `<img src={asset(${JSON.stringify(m[2])})} alt={${JSON.stringify(m[1])}} style={S.img} />`,
+    },
+    {
+      regex: /\[([^\]]+)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/,
+      render: (m) => `<a href={${JSON.stringify(m[2])}} style={S.a}>${renderInline(m[1], mdx)}</a>`,
+    },
+    { regex: /\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)/, render: (m) => `<strong>${renderInline(m[1] ?? m[2], mdx)}</strong>` },
+    { regex: /~~(.+?)~~/, render: (m) => `<del>${renderInline(m[1], mdx)}</del>` },
+    {
+      // Underscores only emphasize at word boundaries so snake_case stays intact
+      regex: /\*(?!\s)(.+?)(?<!\s)\*|(?<!\w)_(?!\s)(.+?)(?<!\s)_(?!\w)/,
+      render: (m) => `<em>${renderInline(m[1] ?? m[2], mdx)}</em>`,
+    },
+    { regex: /(?: {2,}|\\)\n/, render: () => '<br />' },
+  ];
+  if (mdx) {
+    // Inline JSX elements such as <Badge label="New" /> pass through untouched
+    patterns.unshift({ regex: /<([A-Z][\w.]*)\b[^<>]*\/>/, render: (m) => m[0] });
+  }
+
+  let output = '';
+  let rest = source;
+  while (rest) {
+    let earliest: { match: RegExpExecArray; render: (match: RegExpExecArray) => string } | null = null;
+    for (const { regex, render } of patterns) {
+      const match = regex.exec(rest);
+      if (match && (!earliest || match.index < earliest.match.index)) earliest = { match, render };
+    }
+    if (!earliest) {
+      output += text(rest.replace(/\n/g, ' '));
+      break;
+    }
+    output += text(rest.slice(0, earliest.match.index).replace(/\n/g, ' '));
+    output += earliest.render(earliest.match);
+    rest = rest.slice(earliest.match.index + earliest.match[0].length);
+  }
+  return output;
+};
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => cell.trim());
+
+/**
+ * Converts block-level Markdown to JSX
+ */
+const renderBlocks = (lines: string[], mdx: boolean): string[] => {
+  const blocks: string[] = [];
+  let i = 0;
+
+  const isBlockStart = (line: string) =>
+    /^(#{1,6})\s/.test(line) || /^\s*(```|~~~)/.test(line) || /^\s*>/.test(line) || LIST_ITEM.test(line)
+    || /^\s*(\*\*\*+|___+)\s*$/.test(line) || (mdx && /^\s*[<{]/.test(line));
+
+  const renderList = (items: string[]): string => {
+    const ordered = /^\s*\d/.test(items[0]);
+    const baseIndent = (items[0].match(/^\s*/) || [''])[0].length;
+    const entries: { text: string[]; children: string[] }[] = [];
+    items.forEach((line) => {
+      const match = line.match(LIST_ITEM);
+      const indent = (line.match(/^\s*/) || [''])[0].length;
+      if (match && indent <= baseIndent) {
+        entries.push({ text: [match[3]], children: [] });
+      } else if (match || indent > baseIndent + 1) {
+        entries[entries.length - 1]?.children.push(line);
+      } else {
+        entries[entries.length - 1]?.text.push(line.trim());
+      }
+    });
+    const tag = ordered ? 'ol' : 'ul';
+    const body = entries
+      .map(({ text: itemText, children }) => {
+        const nested = children.some((child) => LIST_ITEM.test(child)) ? renderList(children) : '';
+        return `<li style={S.li}>${renderInline(itemText.join('\n'), mdx)}${nested}</li>`;
+      })
+      .join('');
+    return `<${tag} style={S.${tag}}>${body}</${tag}>`;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      blocks.push(`<pre style={S.pre}><code>${text(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level} style={S.h${level}}>${renderInline(heading[2], mdx)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*(\*\*\*+|___+)\s*$/.test(line)) {
+      blocks.push('<hr style={S.hr} />');
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*>\s?/, ''));
+      blocks.push(`<blockquote style={S.blockquote}>${renderBlocks(quoted, mdx).join('')}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const items: string[] = [];
+      const ordered = /^\s*\d/.test(line);
+      while (i < lines.length && (LIST_ITEM.test(lines[i]) || (lines[i].trim() && /^\s+/.test(lines[i])))) {
+        // A top-level item of the other list type starts a new list
+        if (items.length > 0 && /^\S/.test(lines[i]) && /^\d/.test(lines[i]) !== ordered) break;
+        items.push(lines[i++]);
+      }
+      blocks.push(renderList(items));
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) rows.push(splitTableRow(lines[i++]));
+      const head = header.map((cell) => `<th style={S.th}>${renderInline(cell, mdx)}</th>`).join('');
+      const body = rows
+        .map((row) => `<tr>${header.map((_, index) => `<td style={S.td}>${renderInline(row[index] || '', mdx)}</td>`).join('')}</tr>`)
+        .join('');
+      blocks.push(`<table style={S.table}><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`);
+      continue;
+    }
+
+    if (/^\s*[<{]/.test(line)) {
+      const chunk: string[] = [];
+      while (i < lines.length && lines[i].trim()) chunk.push(lines[i++]);
+      // MDX keeps JSX blocks and expressions as code; plain Markdown renders raw HTML
+      blocks.push(mdx ? chunk.join('\n') : `<div dangerouslySetInnerHTML={{ __html: ${JSON.stringify(chunk.join('\n'))} }} />`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i++]);
+    }
+    const joined = paragraph.join('\n');
+    blocks.push(/^!\[[^\]]*\]\([^)]*\)$/.test(joined.trim())
+      ? renderInline(joined.trim(), mdx)
+      : `<p style={S.p}>${renderInline(joined, mdx)}</p>`);
+  }
+
+  return blocks;
+};
+
+/**
+ * Pulls top-level MDX `import`/`export` statements out of the body so they can be hoisted
+ */
+const hoistModuleStatements = (lines: string[]) => {
+  const statements: string[] = [];
+  const body: string[] = [];
+  let inFence = false;
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && /^(import|export)\s/.test(line)) {
+      const statement = [line];
+      let depth = (line.match(/[({[]/g) || []).length - (line.match(/[)}\]]/g) || []).length;
+      while (depth > 0 && i + 1 < lines.length) {
+        const next = lines[++i];
+        statement.push(next);
+        depth += (next.match(/[({[]/g) || []).length - (next.match(/[)}\]]/g) || []).length;
+      }
+      statements.push(statement.join('\n'));
+      i++;
+      continue;
+    }
+    body.push(line);
+    i++;
+  }
+  return { statements, body };
+};
+
+/**
+ * Compiles a Markdown/MDX deck into a TSX module with one exported component per slide.
+ * Relative image paths are inlined from `files`; missing ones are listed in `missingAssets`.
+ */
+export const compileMarkdownDeck = (
+  markdown: string,
+  fileName: string,
+  files: ProjectContext['files'] = {}
+): MarkdownDeck => {
+  const mdx = /\.mdx$/i.test(fileName);
+  let lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+
+  // YAML front matter is metadata, not a slide
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end > 0 && lines.slice(1, end).every((line) => !line.trim() || /^[\w-]+\s*:/.test(line) || /^\s/.test(line))) {
+      lines = lines.slice(end + 1);
+    }
+  }
+
+  const { statements, body } = mdx ? hoistModuleStatements(lines) : { statements: [], body: lines };
+
+  const sections: string[][] = [[]];
+  let inFence = false;
+  body.forEach((line) => {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence && line.trim() === '---') sections.push([]);
+    else sections[sections.length - 1].push(line);
+  });
+
+  const slides: MarkdownDeck['slides'] = [];
+  const components: string[] = [];
+  sections
+    .filter((section) => section.some((line) => line.trim()))
+    .forEach((section) => {
+      const noteIndex = section.findIndex((line) => /^\s*notes?:/i.test(line));
+      const content = noteIndex === -1 ? section : section.slice(0, noteIndex);
+      const notes = noteIndex === -1
+        ? undefined
+        : [section[noteIndex].replace(/^\s*notes?:\s*/i, ''), ...section.slice(noteIndex + 1)].join('\n').trim() || undefined;
+
+      const blocks = renderBlocks(content, mdx);
+      const titleOnly = blocks.length > 0 && blocks.every((block) => /^<h[1-6]/.test(block));
+      const name = `Slide${slides.length + 1}`;
+      slides.push({ name, notes });
+      components.push(
+        `export const ${name} = () => (\n  <section data-markdown-slide style={${titleOnly ? '{ ...S.slide, ...S.titleSlide }' : 'S.slide'}}>\n    ${blocks.join('\n    ')}\n  </section>\n);`
+      );
+    });
+
+  // Relative image paths resolve to project assets; anything else is used as-is
+  const fromDir = resolvePath('', fileName).split('/').slice(0, -1).join('/');
+  const assets: Record<string, string> = {};
+  const missingAssets: string[] = [];
+  for (const [, literal] of components.join('\n').matchAll(/\basset\(("(?:[^"\\]|\\.)*")\)/g)) {
+    const src: string = JSON.parse(literal);
+    if (isExternal(src) || src in assets || missingAssets.includes(src)) continue;
+    const file = files[resolvePath(fromDir, src)];
+    if (file) assets[src] = file.content;
+    else missingAssets.push(src);
+  }
+
+  const code = [
+    "import React from 'react';",
+    ...statements,
+    SLIDE_STYLES,
+    `const ASSETS: Record<string, string> = ${JSON.stringify(assets)};`,
+    'const asset = (src: string) => ASSETS[src] ?? src;',
+    ...components,
+  ].join('\n\n');
+
+  return { code, slides, missingAssets };
+};
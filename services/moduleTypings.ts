@@ -0,0 +1,35 @@
+/**
+ * Virtual Module Typings
+ *
+ * Declarations for the converter's virtual `tsx2slides` module and for asset imports,
+ * used by strict type-check mode next to the bundled React typings. Packages that load
+ * at render time without typings the compiler can find (bundled libraries and `vendor/`
+ * bundles) are typed as `any`; any other unresolved import is reported.
+ */
+
+export const MODULE_TYPINGS_PATH = '/__tsx2slides__/modules.d.ts';
+
+const MODULE_TYPINGS = `
+declare module 'tsx2slides' {
+  export function useSlideCapture(controller: { count: number; goTo: (index: number) => void }): void;
+  export function markReady(): void;
+}
+
+declare module '*.module.css' {
+  const classes: { readonly [className: string]: string };
+  export default classes;
+}
+declare module '*.css';
+declare module '*.png' { const src: string; export default src; }
+declare module '*.jpg' { const src: string; export default src; }
+declare module '*.jpeg' { const src: string; export default src; }
+declare module '*.gif' { const src: string; export default src; }
+declare module '*.webp' { const src: string; export default src; }
+declare module '*.svg' { const src: string; export default src; }
+`;
+
+/**
+ * Builds the declarations, typing the given packages and their subpaths as `any`
+ */
+export const buildModuleTypings = (untypedPackages: string[]) =>
+  MODULE_TYPINGS + untypedPackages.map((name) => `declare module '${name}';\ndeclare module '${name}/*';\n`).join('');
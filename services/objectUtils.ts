@@ -0,0 +1,10 @@
+/**
+ * Object Utilities
+ */
+
+/**
+ * Checks for a plain object such as parsed JSON or an options literal; arrays and
+ * React elements do not count
+ */
+export const isPlainObject = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !(value as any).$$typeof;
@@ -0,0 +1,208 @@
+/**
+ * Package Resolver
+ *
+ * Resolves bare import specifiers (`clsx`, `@acme/ui/button`) against packages
+ * uploaded with the project: a `node_modules` directory, looked up the way Node does,
+ * or pre-bundled ESM/UMD files in a `vendor/` directory named after the package.
+ */
+
+import { PackageDiagnostic, ProjectContext } from '../types';
+
+type ProjectFiles = ProjectContext['files'];
+
+/** Conditions tried, in order, when a package.json `exports` entry is conditional */
+const EXPORT_CONDITIONS = ['browser', 'import', 'module', 'require', 'default'];
+
+const VENDOR_SUFFIX = /(\.(umd|esm|es|cjs|min|bundle|production|development))*\.(m|c)?js$/i;
+
+/**
+ * Checks whether a project path belongs to a vendored package rather than the user's own sources
+ */
+export const isVendoredPath = (filePath: string) => /(^|\/)(node_modules|vendor)\//.test(filePath);
+
+/**
+ * Splits a bare specifier into the package name and the subpath inside the package
+ */
+export const parseBareSpecifier = (specifier: string): { name: string; subpath: string } => {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  return {
+    name: parts.slice(0, nameLength).join('/'),
+    subpath: parts.slice(nameLength).join('/'),
+  };
+};
+
+/**
+ * Picks the target of a package.json `exports` entry for the given subpath (`.` or `./x`)
+ */
+const matchExports = (exportsField: any, subpathKey: string): string | null => {
+  const pickTarget = (target: any): string | null => {
+    if (typeof target === 'string') return target;
+    if (Array.isArray(target)) {
+      for (const item of target) {
+        const picked = pickTarget(item);
+        if (picked) return picked;
+      }
+      return null;
+    }
+    if (target && typeof target === 'object') {
+      for (const condition of EXPORT_CONDITIONS) {
+        if (condition in target) {
+          const picked = pickTarget(target[condition]);
+          if (picked) return picked;
+        }
+      }
+    }
+    return null;
+  };
+
+  const isSubpathMap = exportsField && typeof exportsField === 'object' && !Array.isArray(exportsField)
+    && Object.keys(exportsField).some((key) => key.startsWith('.'));
+  if (!isSubpathMap) return subpathKey === '.' ? pickTarget(exportsField) : null;
+
+  if (subpathKey in exportsField) return pickTarget(exportsField[subpathKey]);
+
+  // Subpath patterns such as "./*" or "./icons/*.js"
+  for (const [key, target] of Object.entries(exportsField)) {
+    const star = key.indexOf('*');
+    if (star === -1) continue;
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (subpathKey.startsWith(prefix) && subpathKey.endsWith(suffix) && subpathKey.length >= key.length - 1) {
+      const match = subpathKey.slice(prefix.length, subpathKey.length - suffix.length);
+      const picked = pickTarget(target);
+      if (picked) return picked.replace(/\*/g, match);
+    }
+  }
+  return null;
+};
+
+/**
+ * Maps package names to pre-bundled files in `vendor/` directories,
+ * e.g. `vendor/clsx.umd.js` → `clsx` and `vendor/@acme/ui.mjs` → `@acme/ui`
+ */
+const findVendorBundles = (paths: string[]) => {
+  const bundles: Record<string, string> = {};
+  paths.forEach((filePath) => {
+    if (filePath.includes('/node_modules/')) return;
+    const match = filePath.match(/(?:^|\/)vendor\/(.+)$/);
+    if (!match || !VENDOR_SUFFIX.test(match[1])) return;
+    const name = match[1].replace(VENDOR_SUFFIX, '').replace(/\/index$/, '');
+    if (!bundles[name]) bundles[name] = filePath;
+  });
+  return bundles;
+};
+
+/**
+ * Lists the packages provided by pre-bundled files in `vendor/` directories
+ */
+export const listVendorPackages = (paths: string[]) => Object.keys(findVendorBundles(paths));
+
+/**
+ * Creates a resolver for bare specifiers. `resolveFile` maps a path without extension
+ * (or a directory) to an existing project file, exactly as relative imports are resolved.
+ */
+export const createPackageResolver = (
+  files: ProjectFiles,
+  resolveFile: (basePath: string) => string | null
+) => {
+  const vendorBundles = findVendorBundles(Object.keys(files));
+  const packageJsonCache = new Map<string, any>();
+
+  // Every `.../node_modules/<name>` directory present in the upload, including nested ones
+  const packageDirs = new Set<string>();
+  Object.keys(files).forEach((filePath) => {
+    const pattern = /\/node_modules\/(@[^/]+\/)?[^/]+(?=\/)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(filePath))) {
+      packageDirs.add(filePath.slice(0, match.index + match[0].length));
+    }
+  });
+
+  const readPackageJson = (dir: string) => {
+    if (packageJsonCache.has(dir)) return packageJsonCache.get(dir);
+    const file = files[`${dir}/package.json`];
+    let manifest: any = null;
+    if (file && file.kind === 'text') {
+      try {
+        manifest = JSON.parse(file.content);
+      } catch {
+        throw new Error(`invalid package.json in ${dir}`);
+      }
+    }
+    packageJsonCache.set(dir, manifest);
+    return manifest;
+  };
+
+  const findPackageDir = (name: string, fromPath?: string) => {
+    const segments = (fromPath || '').split('/').slice(0, -1);
+    for (let depth = segments.length; depth >= 0; depth--) {
+      const base = segments.slice(0, depth).join('/');
+      if (base.endsWith('/node_modules')) continue;
+      const dir = `${base}/node_modules/${name}`;
+      if (packageDirs.has(dir)) return dir;
+    }
+    return null;
+  };
+
+  const resolveInPackage = (dir: string, subpath: string): string | null => {
+    const manifest = readPackageJson(dir);
+    const target = (relative: string) => resolveFile(`${dir}/${relative.replace(/^\.\//, '')}`.replace(/\/$/, ''));
+
+    if (manifest?.exports !== undefined) {
+      const exported = matchExports(manifest.exports, subpath ? `./${subpath}` : '.');
+      if (exported) return target(exported);
+    }
+    if (subpath) return target(subpath);
+
+    const fields = [manifest?.module, typeof manifest?.browser === 'string' ? manifest.browser : null, manifest?.main];
+    for (const field of fields) {
+      if (typeof field !== 'string') continue;
+      const resolved = target(field);
+      if (resolved) return resolved;
+    }
+    return target('index');
+  };
+
+  const resolve = (specifier: string, fromPath?: string): { path: string | null; diagnostic: PackageDiagnostic } => {
+    const { name, subpath } = parseBareSpecifier(specifier);
+
+    if (!subpath && vendorBundles[name]) {
+      const path = vendorBundles[name];
+      return { path, diagnostic: { name, status: 'resolved', source: 'vendor', path } };
+    }
+
+    const dir = findPackageDir(name, fromPath);
+    if (!dir) {
+      return {
+        path: null,
+        diagnostic: { name, status: 'not-found', message: 'Not found in node_modules or vendor/' },
+      };
+    }
+
+    try {
+      const path = resolveInPackage(dir, subpath);
+      const version = readPackageJson(dir)?.version;
+      if (!path) {
+        return {
+          path: null,
+          diagnostic: {
+            name,
+            status: 'unresolved-entry',
+            source: 'node_modules',
+            version,
+            message: `No entry point found for "${specifier}" in ${dir} (checked exports, module, main and index)`,
+          },
+        };
+      }
+      return { path, diagnostic: { name, status: 'resolved', source: 'node_modules', path, version } };
+    } catch (err: any) {
+      return {
+        path: null,
+        diagnostic: { name, status: 'failed', source: 'node_modules', message: err?.message || String(err) },
+      };
+    }
+  };
+
+  return { resolve };
+};
@@ -0,0 +1,98 @@
+/**
+ * Page Sizes Service
+ *
+ * Resolves the output page of an export and where the stage is drawn on it.
+ * PDF pages are measured in millimetres and PPTX slides in inches. When the page
+ * and stage aspect ratios differ, the fit mode stretches, letterboxes or crops.
+ */
+
+import { ExportFormat, ExportOptions, FitMode, StageSize } from '../types';
+import { PDF_DIMENSIONS, PPTX_DIMENSIONS } from './fontSizeConverter';
+import { DEFAULT_STAGE_SIZE } from './stageSize';
+
+export type PageSize = NonNullable<ExportOptions['pageSize']>;
+
+export const DEFAULT_PAGE_SIZES: Record<ExportFormat, PageSize> = { PDF: 'A4', PPTX: '16:9' };
+
+const MM_PER_INCH = 25.4;
+
+/** Page width the default stage was calibrated against; text scales relative to it */
+const REFERENCE_PAGE_WIDTH: Record<ExportFormat, number> = {
+  PDF: PDF_DIMENSIONS.A4_LANDSCAPE.width,
+  PPTX: PPTX_DIMENSIONS.STANDARD_16_9.width,
+};
+
+export interface PageBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PageFrame {
+  /** Page size in the generator's unit */
+  page: { width: number; height: number };
+  /** Area the stage is drawn into; may extend past the page when cropping */
+  box: PageBox;
+  /** Factor for font sizes and stroke widths, 1 for the default stage on the default page */
+  scale: number;
+}
+
+/**
+ * Page dimensions for a format. Paper sizes follow the stage orientation;
+ * slide ratios are always landscape.
+ */
+export const resolvePageDimensions = (
+  format: ExportFormat,
+  pageSize: PageSize = DEFAULT_PAGE_SIZES[format],
+  stage: StageSize = DEFAULT_STAGE_SIZE
+) => {
+  const portrait = stage.height > stage.width;
+  const paper = pageSize === 'A4'
+    ? portrait ? PDF_DIMENSIONS.A4_PORTRAIT : PDF_DIMENSIONS.A4_LANDSCAPE
+    : pageSize === 'letter'
+      ? portrait ? PDF_DIMENSIONS.LETTER_PORTRAIT : PDF_DIMENSIONS.LETTER_LANDSCAPE
+      : null;
+  const slide = pageSize === '4:3' ? PPTX_DIMENSIONS.STANDARD_4_3 : PPTX_DIMENSIONS.STANDARD_16_9;
+  if (format === 'PDF') {
+    return paper ?? { width: slide.width * MM_PER_INCH, height: slide.height * MM_PER_INCH };
+  }
+  return paper ? { width: paper.width / MM_PER_INCH, height: paper.height / MM_PER_INCH } : slide;
+};
+
+/**
+ * Places the stage on a page: `stretch` fills the page, `letterbox` fits the whole
+ * stage and centers it, `crop` fills the page and trims the overflow evenly
+ */
+export const fitStageToPage = (
+  stage: StageSize,
+  page: { width: number; height: number },
+  fit: FitMode = 'stretch'
+): PageBox => {
+  if (fit === 'stretch') return { x: 0, y: 0, width: page.width, height: page.height };
+  const ratios = [page.width / stage.width, page.height / stage.height];
+  const scale = fit === 'letterbox' ? Math.min(...ratios) : Math.max(...ratios);
+  const width = stage.width * scale;
+  const height = stage.height * scale;
+  return { x: (page.width - width) / 2, y: (page.height - height) / 2, width, height };
+};
+
+/**
+ * Resolves the page and stage placement for an export
+ */
+export const resolvePageFrame = (format: ExportFormat, options: ExportOptions, stage: StageSize): PageFrame => {
+  const page = resolvePageDimensions(format, options.pageSize, stage);
+  const box = fitStageToPage(stage, page, options.fit);
+  const scale = (box.width / stage.width) / (REFERENCE_PAGE_WIDTH[format] / DEFAULT_STAGE_SIZE.width);
+  return { page, box, scale };
+};
+
+/**
+ * Maps an element's stage percentages into page units
+ */
+export const toPageRect = (box: PageBox, el: { x: number; y: number; w: number; h: number }): PageBox => ({
+  x: box.x + (el.x / 100) * box.width,
+  y: box.y + (el.y / 100) * box.height,
+  width: (el.w / 100) * box.width,
+  height: (el.h / 100) * box.height,
+});
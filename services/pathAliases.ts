@@ -0,0 +1,167 @@
+/**
+ * Path Alias Service
+ *
+ * Reads `compilerOptions.paths` and `baseUrl` from an uploaded tsconfig.json or
+ * jsconfig.json (following `extends` and `references`) and maps non-relative
+ * specifiers such as `@/components` to project paths, as TypeScript does.
+ */
+
+import { ProjectContext } from '../types';
+import { isVendoredPath } from './packageResolver';
+
+type ProjectFiles = ProjectContext['files'];
+
+interface AliasConfig {
+  configPath: string;
+  /** Directory that `paths` targets are relative to */
+  pathsBase: string;
+  baseUrl: string | null;
+  paths: Record<string, string[]>;
+}
+
+const CONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+const dirname = (filePath: string) => filePath.split('/').slice(0, -1).join('/');
+
+const joinPath = (base: string, next: string) => {
+  const segments: string[] = [];
+  `${base}/${next}`.split('/').forEach((segment) => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return `/${segments.join('/')}`;
+};
+
+/**
+ * Parses JSON with comments and trailing commas, as tsconfig files allow
+ */
+export const parseJsonc = (text: string): any => {
+  let output = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') end += text[end] === '\\' ? 2 : 1;
+      output += text.slice(i, end + 1);
+      i = end;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      output += char;
+    }
+  }
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+};
+
+/**
+ * Picks the config closest to the project root, preferring tsconfig.json over jsconfig.json
+ */
+export const findRootConfig = (files: ProjectFiles) =>
+  Object.keys(files)
+    .filter((path) => !isVendoredPath(path) && CONFIG_NAMES.includes(path.split('/').pop() || ''))
+    .sort((a, b) =>
+      a.split('/').length - b.split('/').length
+      || CONFIG_NAMES.indexOf(a.split('/').pop()!) - CONFIG_NAMES.indexOf(b.split('/').pop()!)
+    )[0] || null;
+
+/**
+ * Loads the alias settings of a config file, merging in the configs it extends.
+ * Solution-style configs (Vite templates) are searched through their `references`.
+ */
+const loadAliasConfig = (files: ProjectFiles, configPath: string, seen = new Set<string>()): AliasConfig | null => {
+  if (seen.has(configPath)) return null;
+  seen.add(configPath);
+  const file = files[configPath];
+  if (!file || file.kind !== 'text') return null;
+
+  const json = parseJsonc(file.content);
+  const configDir = dirname(configPath);
+  const resolveConfig = (specifier: string) => {
+    const path = joinPath(configDir, specifier);
+    if (files[path]) return path;
+    if (files[`${path}.json`]) return `${path}.json`;
+    return files[`${path}/tsconfig.json`] ? `${path}/tsconfig.json` : null;
+  };
+
+  let config: AliasConfig | null = null;
+  const parents = Array.isArray(json.extends) ? json.extends : json.extends ? [json.extends] : [];
+  parents.forEach((parent: string) => {
+    const parentPath = parent.startsWith('.') ? resolveConfig(parent) : null;
+    const parentConfig = parentPath ? loadAliasConfig(files, parentPath, seen) : null;
+    if (parentConfig) config = { ...parentConfig, configPath };
+  });
+
+  const options = json.compilerOptions || {};
+  if (typeof options.baseUrl === 'string') {
+    const baseUrl = joinPath(configDir, options.baseUrl);
+    config = { configPath, pathsBase: baseUrl, paths: config?.paths || {}, baseUrl };
+  }
+  if (options.paths && typeof options.paths === 'object') {
+    config = {
+      configPath,
+      pathsBase: config?.baseUrl ?? configDir,
+      baseUrl: config?.baseUrl ?? null,
+      paths: options.paths,
+    };
+  }
+  if (config) return config;
+
+  for (const reference of json.references || []) {
+    const referencePath = typeof reference?.path === 'string' ? resolveConfig(reference.path) : null;
+    const referenced = referencePath ? loadAliasConfig(files, referencePath, seen) : null;
+    if (referenced) return referenced;
+  }
+  return null;
+};
+
+/**
+ * Creates a resolver returning the candidate project paths (without extension)
+ * for a non-relative specifier, most specific `paths` pattern first, then `baseUrl`.
+ */
+export const createPathAliasResolver = (files: ProjectFiles) => {
+  const rootConfig = findRootConfig(files);
+  let config: AliasConfig | null = null;
+  let error: string | null = null;
+  if (rootConfig) {
+    try {
+      config = loadAliasConfig(files, rootConfig);
+    } catch (err: any) {
+      error = `Failed to read ${rootConfig.replace(/^\//, '')}: ${err?.message || err}. Path aliases are ignored.`;
+    }
+  }
+
+  const patterns = Object.entries(config?.paths || {})
+    .map(([pattern, targets]) => {
+      const star = pattern.indexOf('*');
+      return {
+        prefix: star === -1 ? pattern : pattern.slice(0, star),
+        suffix: star === -1 ? '' : pattern.slice(star + 1),
+        exact: star === -1,
+        targets: Array.isArray(targets) ? targets : [],
+      };
+    })
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.prefix.length - a.prefix.length);
+
+  const candidates = (specifier: string): string[] => {
+    if (!config) return [];
+    const results: string[] = [];
+    const match = patterns.find(({ prefix, suffix, exact }) =>
+      exact
+        ? specifier === prefix
+        : specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+    );
+    if (match) {
+      const wildcard = match.exact ? '' : specifier.slice(match.prefix.length, specifier.length - match.suffix.length);
+      match.targets.forEach((target) => results.push(joinPath(config!.pathsBase, target.replace('*', wildcard))));
+    }
+    if (config.baseUrl) results.push(joinPath(config.baseUrl, specifier));
+    return results;
+  };
+
+  return { configPath: config?.configPath ?? null, error, candidates };
+};
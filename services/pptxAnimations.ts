@@ -0,0 +1,115 @@
+/**
+ * PPTX Animation Service
+ *
+ * PptxGenJS has no animation API, so entrance effects are added to the finished file:
+ * animated shapes get recognizable object names when they are placed, and a `<p:timing>`
+ * tree is written into each slide's XML that plays their effects once the slide opens.
+ * Effects sharing an order play together; orders play one after another.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { EntranceAnimation } from '../types';
+
+const OBJECT_NAME_PREFIX = 'tsx2slides-anim';
+const OBJECT_NAME_PATTERN = new RegExp(`<p:cNvPr id="(\\d+)" name="${OBJECT_NAME_PREFIX}-(\\d+)-\\d+"`, 'g');
+
+/** PowerPoint entrance presets: Fade, Fly In and Zoom */
+const PRESETS: Record<EntranceAnimation['effect'], number> = { fade: 10, slide: 2, zoom: 53 };
+/** Fly In subtypes by the side the shape enters from */
+const FLY_SUBTYPES: Record<NonNullable<EntranceAnimation['direction']>, number> = { top: 1, right: 2, bottom: 4, left: 8 };
+/** Off-slide start positions for Fly In, in PowerPoint's slide-relative formula language */
+const FLY_FROM: Record<NonNullable<EntranceAnimation['direction']>, { attr: 'ppt_x' | 'ppt_y'; from: string }> = {
+  top: { attr: 'ppt_y', from: '0-#ppt_h/2' },
+  right: { attr: 'ppt_x', from: '1+#ppt_w/2' },
+  bottom: { attr: 'ppt_y', from: '1+#ppt_h/2' },
+  left: { attr: 'ppt_x', from: '0-#ppt_w/2' },
+};
+
+/**
+ * Object name for a shape drawn from an animated element; `index` keeps names unique
+ */
+export const animatedObjectName = (animation: EntranceAnimation, index: number) =>
+  `${OBJECT_NAME_PREFIX}-${animation.group}-${index}`;
+
+const ms = (value: number) => String(Math.max(0, Math.round(value)));
+
+/**
+ * Builds the `<p:timing>` tree for one slide from its animated shapes
+ */
+const buildTimingXml = (effects: { spid: string; animation: EntranceAnimation }[]) => {
+  let nextId = 3;
+  const target = (spid: string) => `<p:tgtEl><p:spTgt spid="${spid}"/></p:tgtEl>`;
+  const behavior = (spid: string, duration: number, attr?: string) =>
+    `<p:cBhvr${attr ? ' additive="base"' : ''}><p:cTn id="${nextId++}" dur="${ms(duration)}" fill="hold"/>${target(spid)}${
+      attr ? `<p:attrNameLst><p:attrName>${attr}</p:attrName></p:attrNameLst>` : ''
+    }</p:cBhvr>`;
+  const anim = (spid: string, duration: number, attr: string, from: string, to: string) =>
+    `<p:anim calcmode="lin" valueType="num">${behavior(spid, duration, attr)}<p:tavLst>`
+    + `<p:tav tm="0"><p:val><p:strVal val="${from}"/></p:val></p:tav>`
+    + `<p:tav tm="100000"><p:val><p:strVal val="${to}"/></p:val></p:tav></p:tavLst></p:anim>`;
+  const fade = (spid: string, duration: number) =>
+    `<p:animEffect transition="in" filter="fade">${behavior(spid, duration)}</p:animEffect>`;
+
+  const effectXml = ({ spid, animation }: { spid: string; animation: EntranceAnimation }, nodeType: string) => {
+    const { effect, direction = 'bottom', delayMs, durationMs } = animation;
+    const id = nextId++;
+    const show = `<p:set><p:cBhvr><p:cTn id="${nextId++}" dur="1" fill="hold"><p:stCondLst><p:cond delay="0"/></p:stCondLst></p:cTn>${
+      target(spid)
+    }<p:attrNameLst><p:attrName>style.visibility</p:attrName></p:attrNameLst></p:cBhvr><p:to><p:strVal val="visible"/></p:to></p:set>`;
+    let motion = '';
+    if (effect === 'fade') {
+      motion = fade(spid, durationMs);
+    } else if (effect === 'slide') {
+      const { attr, from } = FLY_FROM[direction];
+      motion = anim(spid, durationMs, attr, from, `#${attr}`);
+    } else {
+      motion = anim(spid, durationMs, 'ppt_w', '0', '#ppt_w') + anim(spid, durationMs, 'ppt_h', '0', '#ppt_h') + fade(spid, durationMs);
+    }
+    const subtype = effect === 'slide' ? FLY_SUBTYPES[direction] : effect === 'zoom' ? 16 : 0;
+    return `<p:par><p:cTn id="${id}" presetID="${PRESETS[effect]}" presetClass="entr" presetSubtype="${subtype}" fill="hold" nodeType="${nodeType}">`
+      + `<p:stCondLst><p:cond delay="${ms(delayMs)}"/></p:stCondLst><p:childTnLst>${show}${motion}</p:childTnLst></p:cTn></p:par>`;
+  };
+
+  // One sequence group that starts on its own when the slide begins (cTn 2 is the main sequence)
+  const groupId = nextId++;
+  // Each order is a step that starts when the longest effect of the previous step ends
+  const orders = Array.from(new Set(effects.map(({ animation }) => animation.order))).sort((a, b) => a - b);
+  let stepStart = 0;
+  const steps = orders.map((order) => {
+    const stepEffects = effects.filter(({ animation }) => animation.order === order);
+    const id = nextId++;
+    const children = stepEffects.map((effect, index) => effectXml(effect, index === 0 ? 'afterEffect' : 'withEffect')).join('');
+    const xml = `<p:par><p:cTn id="${id}" fill="hold"><p:stCondLst><p:cond delay="${ms(stepStart)}"/></p:stCondLst>`
+      + `<p:childTnLst>${children}</p:childTnLst></p:cTn></p:par>`;
+    stepStart += Math.max(...stepEffects.map(({ animation }) => animation.delayMs + animation.durationMs));
+    return xml;
+  }).join('');
+
+  const group = `<p:par><p:cTn id="${groupId}" fill="hold"><p:stCondLst><p:cond delay="indefinite"/>`
+    + `<p:cond evt="onBegin" delay="0"><p:tn val="2"/></p:cond></p:stCondLst><p:childTnLst>${steps}</p:childTnLst></p:cTn></p:par>`;
+  return '<p:timing><p:tnLst><p:par><p:cTn id="1" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst>'
+    + `<p:seq concurrent="1" nextAc="seek"><p:cTn id="2" dur="indefinite" nodeType="mainSeq"><p:childTnLst>${group}</p:childTnLst></p:cTn>`
+    + '<p:prevCondLst><p:cond evt="onPrev" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:prevCondLst>'
+    + '<p:nextCondLst><p:cond evt="onNext" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:nextCondLst>'
+    + '</p:seq></p:childTnLst></p:cTn></p:par></p:tnLst></p:timing>';
+};
+
+/**
+ * Adds entrance effects to a written PPTX file. `slides[i]` maps the animation groups
+ * placed on slide i + 1 to their effects; shapes are found by their object names.
+ */
+export const addEntranceAnimations = (pptx: Uint8Array, slides: Map<number, EntranceAnimation>[]): Uint8Array => {
+  const files = unzipSync(pptx);
+  slides.forEach((animations, index) => {
+    const path = `ppt/slides/slide${index + 1}.xml`;
+    if (animations.size === 0 || !files[path]) return;
+    const xml = strFromU8(files[path]);
+    const effects = Array.from(xml.matchAll(OBJECT_NAME_PATTERN))
+      .map(([, spid, group]) => ({ spid, animation: animations.get(Number(group)) }))
+      .filter((effect): effect is { spid: string; animation: EntranceAnimation } => Boolean(effect.animation));
+    if (effects.length === 0) return;
+    // PptxGenJS slides end with clrMapOvr, which timing follows
+    files[path] = strToU8(xml.replace(/<\/p:sld>\s*$/, `${buildTimingXml(effects)}</p:sld>`));
+  });
+  return zipSync(files);
+};
@@ -6,6 +6,7 @@
  */
 
 import { RenderSnapshot } from '../types';
+import { ImageLoadError } from './errors';
 
 const buildSvg = (snapshot: RenderSnapshot, pageIndex: number, scale: number) => {
   const width = snapshot.width * scale;
@@ -30,21 +31,22 @@ const buildSvg = (snapshot: RenderSnapshot, pageIndex: number, scale: number) =>
   return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
 };
 
-const loadImage = (src: string) =>
+const loadImage = (src: string, label: string) =>
   new Promise<HTMLImageElement>((resolve, reject) => {
     const img = new Image();
     img.onload = () => resolve(img);
-    img.onerror = reject;
+    img.onerror = () => reject(new ImageLoadError(`${label} could not be rasterized: its snapshot failed to load as an image.`));
     img.src = src;
   });
 
 export const rasterizePage = async (
   snapshot: RenderSnapshot,
   pageIndex: number,
-  scale: number
+  scale: number,
+  label = `Page ${pageIndex + 1}`
 ): Promise<string> => {
   const svgUrl = buildSvg(snapshot, pageIndex, scale);
-  const img = await loadImage(svgUrl);
+  const img = await loadImage(svgUrl, label);
   const canvas = document.createElement('canvas');
   canvas.width = snapshot.width * scale;
   canvas.height = snapshot.height * scale;
@@ -59,11 +61,16 @@ export const rasterizePage = async (
 export const rasterizeAllPages = async (
   snapshot: RenderSnapshot,
   pageCount: number,
-  scale: number
+  scale: number,
+  pageSnapshots: (RenderSnapshot | undefined)[] = []
 ): Promise<string[]> => {
   const results: string[] = [];
   for (let i = 0; i < pageCount; i += 1) {
-    const dataUrl = await rasterizePage(snapshot, i, scale);
+    // Pages captured from separate render states carry their own snapshot
+    const pageSnapshot = pageSnapshots[i];
+    const dataUrl = pageSnapshot
+      ? await rasterizePage(pageSnapshot, 0, scale, `Page ${i + 1}`)
+      : await rasterizePage(snapshot, i, scale);
     results.push(dataUrl);
   }
   return results;
@@ -0,0 +1,123 @@
+/**
+ * Readiness Service
+ *
+ * Decides when a rendered component is ready to capture: Suspense work started with
+ * `React.lazy` or `use()` has settled, the DOM has stopped changing, and, when the
+ * component opts in, it has called `markReady()` from `tsx2slides` or set `data-ready`.
+ */
+
+import React from 'react';
+
+export type ReadySignal = 'markReady' | 'data-ready' | 'none';
+
+/** Default longest wait per capture */
+export const DEFAULT_READY_TIMEOUT_MS = 5000;
+
+/** DOM must stay unchanged this long before data loaded in effects counts as rendered */
+const QUIET_MS = 100;
+/** Continuously updating components (clocks, carousels) are captured after this long */
+const MAX_QUIET_WAIT_MS = 1500;
+const POLL_MS = 25;
+
+const READY_SELECTOR = '[data-ready]:not([data-ready="false"])';
+
+/** Totals over every capture of one render, reported in diagnostics */
+export interface ReadinessReport {
+  signal: ReadySignal;
+  waitedMs: number;
+  timedOut: number;
+  /** Why each timed-out wait ended, deduplicated */
+  reasons: string[];
+}
+
+/**
+ * Detects which explicit readiness signal a project uses, if any
+ */
+export const detectReadySignal = (sources: string[]): ReadySignal => {
+  if (sources.some((source) => /\bmarkReady\b/.test(source))) return 'markReady';
+  if (sources.some((source) => /\bdata-ready\b/.test(source))) return 'data-ready';
+  return 'none';
+};
+
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  Boolean(value) && typeof (value as PromiseLike<unknown>).then === 'function';
+
+/**
+ * Creates the readiness tracker for one render. `react` is the React module handed to
+ * user code, with `lazy` and `use` wrapped so pending Suspense work can be awaited.
+ */
+export const createReadinessTracker = (container: HTMLElement, signal: ReadySignal, timeoutMs: number) => {
+  const pending = new Set<PromiseLike<unknown>>();
+  const report: ReadinessReport = { signal, waitedMs: 0, timedOut: 0, reasons: [] };
+  let ready = false;
+  let lastMutation = performance.now();
+  const observer = new MutationObserver(() => {
+    lastMutation = performance.now();
+  });
+  observer.observe(container, { childList: true, subtree: true, attributes: true, characterData: true });
+
+  const track = <T,>(promise: PromiseLike<T>): PromiseLike<T> => {
+    if (!pending.has(promise)) {
+      pending.add(promise);
+      const settle = () => {
+        pending.delete(promise);
+      };
+      promise.then(settle, settle);
+    }
+    return promise;
+  };
+
+  const react = {
+    ...React,
+    lazy: (load: () => Promise<any>) => React.lazy(() => track(load()) as Promise<any>),
+    use: (usable: any) => {
+      if (isThenable(usable)) track(usable);
+      return (React as any).use(usable);
+    },
+  } as typeof React;
+
+  const isSignalled = () => signal === 'none' || ready || Boolean(container.querySelector(READY_SELECTOR));
+
+  const describeWait = () => {
+    if (pending.size > 0) return `${pending.size} Suspense load${pending.size === 1 ? '' : 's'} still pending`;
+    if (signal === 'markReady') return 'markReady() was not called';
+    return 'no element set data-ready';
+  };
+
+  return {
+    react,
+    /** Marks the current render as ready; exposed to components through `tsx2slides` */
+    markReady: () => {
+      ready = true;
+    },
+    /** Starts a new render, which must signal readiness again */
+    reset: () => {
+      ready = false;
+    },
+    /**
+     * Resolves once the render is ready, or after the timeout with the reason recorded.
+     * The wait also ends at `deadline`, so it cannot outlast the page's render budget.
+     */
+    waitUntilReady: async (deadline = Infinity) => {
+      const started = performance.now();
+      const limit = Math.min(timeoutMs, deadline - started);
+      for (;;) {
+        const elapsed = performance.now() - started;
+        const quiet = performance.now() - lastMutation >= QUIET_MS || elapsed >= MAX_QUIET_WAIT_MS;
+        if (pending.size === 0 && quiet && isSignalled()) break;
+        if (elapsed >= limit) {
+          const reason = limit < timeoutMs ? `${describeWait()} when the render time limit ran out` : describeWait();
+          report.timedOut += 1;
+          if (!report.reasons.includes(reason)) report.reasons.push(reason);
+          break;
+        }
+        await new Promise((resolve) => window.setTimeout(resolve, POLL_MS));
+      }
+      report.waitedMs += Math.round(performance.now() - started);
+    },
+    report: (): ReadinessReport => ({ ...report, reasons: [...report.reasons] }),
+    disconnect: () => observer.disconnect(),
+  };
+};
+
+export type ReadinessTracker = ReturnType<typeof createReadinessTracker>;
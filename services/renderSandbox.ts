@@ -0,0 +1,119 @@
+/**
+ * Render Sandbox Service
+ *
+ * Runs the layout engine inside a sandboxed iframe (`sandbox.html`) with an opaque
+ * origin and a CSP that blocks network access, so user code cannot freeze, restyle or
+ * read the converter tab. Requests and layouts cross the frame boundary with
+ * `postMessage`; a watchdog removes the frame when a page overruns its time limit.
+ */
+
+import { DocumentLayout } from '../types';
+import { ConversionError, TimeoutError } from './errors';
+import { ParseRequest } from './layoutEngine';
+import { DEFAULT_STAGE_SIZE } from './stageSize';
+
+/** Default execution and render budget for each captured page */
+export const DEFAULT_RENDER_TIMEOUT_MS = 20000;
+/** Time the sandbox may take to boot before the render is abandoned */
+const SANDBOX_LOAD_TIMEOUT_MS = 30000;
+/** Extra time after the budget before the host kills the frame, so the in-sandbox guard can report first */
+const WATCHDOG_GRACE_MS = 2000;
+
+const SANDBOX_URL = `${import.meta.env.BASE_URL}sandbox.html`;
+
+/** An error as posted across the frame boundary, keeping the structured ConversionError fields */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  code?: ConversionError['code'];
+  suggestion?: string;
+  location?: ConversionError['location'];
+  moduleName?: string;
+  componentStack?: string;
+  diagnostics?: ConversionError['diagnostics'];
+}
+
+export type SandboxMessage =
+  | { type: 'tsx2slides:ready' }
+  | { type: 'tsx2slides:render'; request: ParseRequest }
+  /** A page, dataset row, slide state or script step started its budget */
+  | { type: 'tsx2slides:page' }
+  | { type: 'tsx2slides:result'; layout: DocumentLayout }
+  | { type: 'tsx2slides:error'; error: SerializedError };
+
+export const serializeError = (err: unknown): SerializedError => {
+  if (!(err instanceof Error)) return { name: 'Error', message: String(err) };
+  const { name, message, stack } = err;
+  if (!(err instanceof ConversionError)) return { name, message, stack };
+  const { code, suggestion, location, moduleName, componentStack, diagnostics } = err;
+  return { name, message, stack, code, suggestion, location, moduleName, componentStack, diagnostics };
+};
+
+const reviveError = (serialized: SerializedError): Error => {
+  const { name, message, stack, code, ...fields } = serialized;
+  const error = code ? Object.assign(new ConversionError(code, message), fields) : new Error(message);
+  error.name = name;
+  if (stack) error.stack = stack;
+  return error;
+};
+
+/**
+ * Renders a request in a fresh sandbox frame and resolves with the captured layout.
+ * The frame is sized to the stage, so it acts as the component's viewport, and is
+ * removed afterwards, taking any timers or global changes with it.
+ */
+export const renderInSandbox = (
+  request: ParseRequest,
+  timeoutMs = DEFAULT_RENDER_TIMEOUT_MS
+): Promise<DocumentLayout> => new Promise((resolve, reject) => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-scripts');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.tabIndex = -1;
+  frame.className = 'render-sandbox';
+  const stage = request.stage ?? DEFAULT_STAGE_SIZE;
+  frame.style.width = `${stage.width}px`;
+  frame.style.height = `${stage.height}px`;
+  frame.src = SANDBOX_URL;
+
+  let watchdog = window.setTimeout(() => {
+    finish(() => reject(new Error('The render sandbox failed to load. Reload the page and try again.')));
+  }, SANDBOX_LOAD_TIMEOUT_MS);
+
+  const finish = (settle: () => void) => {
+    window.clearTimeout(watchdog);
+    window.removeEventListener('message', onMessage);
+    frame.remove();
+    settle();
+  };
+
+  // Each page gets the full budget; a frame whose main thread is blocked sends no more pages
+  const armWatchdog = () => {
+    window.clearTimeout(watchdog);
+    watchdog = window.setTimeout(() => {
+      finish(() => reject(new TimeoutError(
+        `A page did not finish rendering within ${Math.round(timeoutMs / 1000)} s; the sandbox was stopped.`
+      )));
+    }, timeoutMs + WATCHDOG_GRACE_MS);
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== frame.contentWindow) return;
+    const message = event.data as SandboxMessage;
+    if (message?.type === 'tsx2slides:ready') {
+      armWatchdog();
+      const render: SandboxMessage = { type: 'tsx2slides:render', request: { ...request, timeoutMs, stage } };
+      frame.contentWindow?.postMessage(render, '*');
+    } else if (message?.type === 'tsx2slides:page') {
+      armWatchdog();
+    } else if (message?.type === 'tsx2slides:result') {
+      finish(() => resolve(message.layout));
+    } else if (message?.type === 'tsx2slides:error') {
+      finish(() => reject(reviveError(message.error)));
+    }
+  };
+
+  window.addEventListener('message', onMessage);
+  document.body.appendChild(frame);
+});
@@ -0,0 +1,174 @@
+/**
+ * Runtime Errors Service
+ *
+ * Maps errors thrown by executed modules back to the original source through the
+ * transpiler's source maps, and captures render errors with their component stack.
+ */
+
+import React from 'react';
+import { SourceLocation } from '../types';
+import { buildCodeFrame } from './codeFrame';
+import { ConversionError } from './errors';
+
+/** Scheme of the `sourceURL` given to every module runner, so stack frames name the module */
+const SOURCE_URL_PREFIX = 'tsx2slides:///';
+const SOURCE_URL_FRAME = /tsx2slides:\/\/\/([^\s():]+):(\d+):(\d+)/g;
+const MAX_SOURCE_MAPS = 256;
+
+/** Mapping segments per generated line: [generatedColumn, originalLine, originalColumn], all 0-based */
+type LineMappings = [number, number, number][];
+
+interface RegisteredSource {
+  filePath: string;
+  source: string;
+  lines: LineMappings[];
+}
+
+const registry = new Map<string, RegisteredSource>();
+let runnerLineOffset: number | null = null;
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decodes the `mappings` field of a version 3 source map with a single source
+ */
+const decodeMappings = (mappings: string): LineMappings[] => {
+  const lines: LineMappings[] = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+  mappings.split(';').forEach((line) => {
+    const segments: LineMappings = [];
+    let generatedColumn = 0;
+    line.split(',').filter(Boolean).forEach((segment) => {
+      const values: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      generatedColumn += values[0];
+      if (values.length < 4) return;
+      originalLine += values[2];
+      originalColumn += values[3];
+      segments.push([generatedColumn, originalLine, originalColumn]);
+    });
+    lines.push(segments);
+  });
+  return lines;
+};
+
+/**
+ * Lines the Function constructor adds before a runner body, measured once per browser
+ */
+const getRunnerLineOffset = () => {
+  if (runnerLineOffset === null) {
+    const probeUrl = `${SOURCE_URL_PREFIX}__probe__`;
+    const stack: string = new Function('return new Error().stack;\n//# sourceURL=' + probeUrl)() || '';
+    const match = stack.match(/tsx2slides:\/\/\/__probe__:(\d+):\d+/);
+    runnerLineOffset = match ? Number(match[1]) - 1 : 0;
+  }
+  return runnerLineOffset;
+};
+
+/**
+ * Returns the `sourceURL` a module runner is compiled with
+ */
+export const toSourceUrl = (filePath: string) => `${SOURCE_URL_PREFIX}${filePath.replace(/^\/+/, '')}`;
+
+/**
+ * Registers the source map of a transpiled module so its stack frames can be mapped back
+ */
+export const registerSourceMap = (filePath: string, source: string, sourceMapText?: string) => {
+  if (!sourceMapText) return;
+  if (registry.size > MAX_SOURCE_MAPS) registry.clear();
+  try {
+    const { mappings } = JSON.parse(sourceMapText);
+    registry.set(toSourceUrl(filePath), { filePath, source, lines: decodeMappings(mappings || '') });
+  } catch {
+    // A module without a usable map still runs; its frames are left unmapped
+  }
+};
+
+/**
+ * Maps a 1-based line and column in a module runner to the original source
+ */
+const mapFrame = (sourcePath: string, line: number, column: number): SourceLocation | null => {
+  const entry = registry.get(`${SOURCE_URL_PREFIX}${sourcePath}`);
+  if (!entry) return null;
+  const segments = entry.lines[line - 1 - getRunnerLineOffset()];
+  if (!segments || segments.length === 0) return null;
+  const segment = [...segments].reverse().find(([generatedColumn]) => generatedColumn <= column - 1) ?? segments[0];
+  return {
+    file: entry.filePath,
+    line: segment[1] + 1,
+    column: segment[2] + 1,
+    codeFrame: buildCodeFrame(entry.source, segment[1] + 1, segment[2] + 1),
+  };
+};
+
+/**
+ * Rewrites runner frames in a stack trace (or React component stack) to original locations
+ */
+export const mapStackTrace = (stack: string) =>
+  stack.replace(SOURCE_URL_FRAME, (full, sourcePath: string, line: string, column: string) => {
+    const location = mapFrame(sourcePath, Number(line), Number(column));
+    return location ? `${location.file.replace(/^\//, '')}:${location.line}:${location.column}` : full;
+  });
+
+/**
+ * Finds the innermost original-source location in a stack trace
+ */
+export const findSourceLocation = (stack?: string | null): SourceLocation | null => {
+  for (const match of (stack || '').matchAll(SOURCE_URL_FRAME)) {
+    const location = mapFrame(match[1], Number(match[2]), Number(match[3]));
+    if (location) return location;
+  }
+  return null;
+};
+
+/**
+ * An error raised while executing or rendering user code, with its original location
+ */
+export class RuntimeError extends ConversionError {
+  constructor(message: string, cause: unknown, componentStack?: string | null) {
+    super('render-exception', message);
+    this.name = 'RuntimeError';
+    const stack = cause instanceof Error ? cause.stack : undefined;
+    this.location = findSourceLocation(stack) ?? findSourceLocation(componentStack) ?? undefined;
+    this.componentStack = componentStack ? mapStackTrace(componentStack).trim() : undefined;
+    if (stack) this.stack = mapStackTrace(stack);
+  }
+}
+
+interface RenderBoundaryProps {
+  onError: (error: unknown, componentStack: string | null) => void;
+  children?: React.ReactNode;
+}
+
+/**
+ * Error boundary around the rendered component; reports the error with React's component stack
+ */
+export class RenderErrorBoundary extends React.Component<RenderBoundaryProps, { failed: boolean }> {
+  declare props: RenderBoundaryProps;
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown, info: { componentStack?: string | null }) {
+    this.props.onError(error, info.componentStack ?? null);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
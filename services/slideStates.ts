@@ -0,0 +1,76 @@
+/**
+ * Slide States Service
+ *
+ * Discovers how a stateful multi-slide component can be driven through its
+ * slides: a `slides` array export, a registered `goTo(index)` controller, or
+ * a "next" control that can be clicked.
+ */
+
+import React from 'react';
+import { hashString } from './hashUtils';
+
+export interface SlideController {
+  count: number;
+  goTo: (index: number) => void;
+}
+
+export type SlideStateStrategy = 'slides-export' | 'controller' | 'next-control';
+
+export interface SlideCaptureRegistry {
+  controller: SlideController | null;
+}
+
+/**
+ * Creates the `tsx2slides` runtime module. Components opt into state capture with
+ * `useSlideCapture({ count, goTo })`; outside the converter the hook is a no-op.
+ */
+export const createSlideCaptureModule = (registry: SlideCaptureRegistry) => ({
+  useSlideCapture: (controller: SlideController) => {
+    registry.controller = controller;
+  },
+});
+
+/**
+ * Normalizes a `slides` export into renderable React elements
+ */
+export const getExportedSlides = (exportsObj: Record<string, any>): React.ReactElement[] => {
+  const slides = exportsObj.slides ?? exportsObj.default?.slides;
+  if (!Array.isArray(slides)) return [];
+  return slides
+    .map((slide) => {
+      if (React.isValidElement(slide)) return slide;
+      if (typeof slide === 'function') return React.createElement(slide);
+      if (slide && typeof slide === 'object' && typeof slide.component === 'function') {
+        return React.createElement(slide.component, slide.props);
+      }
+      return null;
+    })
+    .filter(Boolean) as React.ReactElement[];
+};
+
+const isDisabled = (element: HTMLElement) =>
+  (element as HTMLButtonElement).disabled === true || element.getAttribute('aria-disabled') === 'true';
+
+/**
+ * Finds the control that advances to the next slide, preferring explicit markers
+ */
+export const findNextControl = (container: HTMLElement): HTMLElement | null => {
+  const marked = container.querySelector<HTMLElement>('[data-slide-next], [data-next]');
+  if (marked) return isDisabled(marked) ? null : marked;
+
+  const candidates = Array.from(
+    container.querySelectorAll<HTMLElement>('button, a, [role="button"]')
+  );
+  const labelled = candidates.find((el) => /^next\b/i.test(el.getAttribute('aria-label')?.trim() || ''));
+  const texted = candidates.find((el) => /^(next\b|›|→|»)/i.test(el.textContent?.trim() || ''));
+  const control = labelled || texted || null;
+  return control && !isDisabled(control) ? control : null;
+};
+
+/**
+ * Cheap signature of the rendered DOM, used to detect when navigation stops changing it
+ */
+export const getDomSignature = (container: HTMLElement): string => {
+  const html = container.innerHTML;
+  return `${html.length}:${hashString(html)}`;
+};
@@ -0,0 +1,31 @@
+/**
+ * Stage Size Service
+ *
+ * Size of the stage components render on. The render sandbox frame takes the same
+ * size, so it is also the viewport that `vw`/`vh` units and media queries see.
+ */
+
+import { StageSize } from '../types';
+
+export const DEFAULT_STAGE_SIZE: StageSize = { width: 1280, height: 720 };
+
+/** Stage sizes offered in the UI; any other size is entered as a custom size */
+export const STAGE_PRESETS: { id: string; label: string; size: StageSize }[] = [
+  { id: 'hd', label: '1280 x 720 (16:9)', size: DEFAULT_STAGE_SIZE },
+  { id: 'full-hd', label: '1920 x 1080 (16:9)', size: { width: 1920, height: 1080 } },
+  { id: 'xga', label: '1024 x 768 (4:3)', size: { width: 1024, height: 768 } },
+  // 210 x 297 mm at 96 dpi
+  { id: 'a4-portrait', label: 'A4 portrait (794 x 1123)', size: { width: 794, height: 1123 } },
+];
+
+const MIN_STAGE_SIDE = 200;
+const MAX_STAGE_SIDE = 4096;
+
+/**
+ * Clamps a custom stage size to whole pixels within the range the sandbox can render
+ */
+export const normalizeStageSize = ({ width, height }: StageSize): StageSize => {
+  const clamp = (value: number, fallback: number) =>
+    Number.isFinite(value) ? Math.min(MAX_STAGE_SIDE, Math.max(MIN_STAGE_SIDE, Math.round(value))) : fallback;
+  return { width: clamp(width, DEFAULT_STAGE_SIZE.width), height: clamp(height, DEFAULT_STAGE_SIZE.height) };
+};
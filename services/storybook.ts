@@ -0,0 +1,108 @@
+/**
+ * Storybook Service
+ *
+ * Recognizes Component Story Format (CSF) modules and turns each story into a
+ * renderable component with its merged args, `render` function and decorators,
+ * so a `*.stories.tsx` file can be exported as one slide per story.
+ */
+
+import React from 'react';
+import { chainDecorators, renderDecorated, StoryDecorator } from './decorators';
+import { isPlainObject } from './objectUtils';
+
+export interface CsfStory {
+  /** Export name of the story, e.g. `Primary` */
+  name: string;
+  /** Display name: `name`/`storyName` from the story, or the export name in title case */
+  title: string;
+  component: React.ComponentType<any>;
+}
+
+/**
+ * Checks whether a file name follows the Storybook `*.stories.*` convention
+ */
+export const isStoriesFile = (fileName?: string | null) => /\.stories\.[cm]?[jt]sx?$/i.test(fileName || '');
+
+/**
+ * Detects a CSF module: the default export is a meta object rather than a component
+ */
+export const isCsfModule = (exportsObj: Record<string, any>, fileName?: string | null) => {
+  const meta = exportsObj.default;
+  if (!isPlainObject(meta)) return false;
+  return isStoriesFile(fileName) || ['component', 'title', 'args', 'decorators', 'render'].some((key) => key in meta);
+};
+
+const toTitleCase = (name: string) =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/^./, (char) => char.toUpperCase())
+    .trim();
+
+const matchesFilter = (name: string, filter: unknown) => {
+  if (Array.isArray(filter)) return filter.includes(name);
+  if (filter instanceof RegExp) return filter.test(name);
+  return false;
+};
+
+/**
+ * Builds one component per story, in export order. Story decorators wrap the story first,
+ * then the meta decorators, as in Storybook. Props passed to the component override args.
+ */
+export const getCsfStories = (
+  exportsObj: Record<string, any>,
+  sourceOrder: string[] = [],
+  fileName?: string | null
+): CsfStory[] => {
+  if (!isCsfModule(exportsObj, fileName)) return [];
+  const meta = exportsObj.default as Record<string, any>;
+  const order: string[] = Array.isArray(exportsObj.__namedExportsOrder)
+    ? exportsObj.__namedExportsOrder
+    : [...sourceOrder, ...Object.keys(exportsObj)];
+
+  return order
+    .filter((name, index) => order.indexOf(name) === index)
+    .filter((name) => name !== 'default' && !name.startsWith('__') && name in exportsObj)
+    .filter((name) => (meta.includeStories === undefined || matchesFilter(name, meta.includeStories))
+      && !matchesFilter(name, meta.excludeStories))
+    .map((name): CsfStory | null => {
+      const story = exportsObj[name];
+      const isFunctionStory = typeof story === 'function';
+      if (!isFunctionStory && !isPlainObject(story)) return null;
+
+      const render: ((args: Record<string, any>, context: Record<string, any>) => React.ReactNode) | null =
+        story.render
+        ?? (isFunctionStory ? story : null)
+        ?? meta.render
+        ?? (meta.component ? (args: Record<string, any>) => React.createElement(meta.component, args) : null);
+      if (!render) return null;
+
+      const title = story.name && !isFunctionStory ? story.name : story.storyName ?? toTitleCase(name);
+      const decorators: StoryDecorator[] = [...(story.decorators || []), ...(meta.decorators || [])];
+      const baseArgs = { ...meta.args, ...story.args };
+      const parameters = { ...meta.parameters, ...story.parameters };
+
+      // Built once per story, so re-renders update the decorated tree instead of remounting it
+      const Decorated = chainDecorators(render, decorators);
+
+      const StoryComponent = (props: Record<string, any>) => {
+        const args = { ...baseArgs, ...props };
+        const context = {
+          args,
+          argTypes: { ...meta.argTypes, ...story.argTypes },
+          parameters,
+          name: title,
+          title: meta.title,
+          id: name,
+          globals: {},
+          viewMode: 'story',
+          loaded: {},
+        };
+        return renderDecorated(Decorated, context);
+      };
+      StoryComponent.displayName = `Story(${name})`;
+
+      return { name, title, component: StoryComponent };
+    })
+    .filter(Boolean) as CsfStory[];
+};
@@ -0,0 +1,1013 @@
+/**
+ * Tailwind Generator Service
+ *
+ * Generates CSS for the Tailwind utility classes used by a component so that
+ * Tailwind-styled decks can be measured and exported as vectors offline.
+ * Covers the core utility set of Tailwind v3 (plus common v4 aliases) and
+ * honors the theme, prefix, important and darkMode keys of a tailwind.config.
+ */
+
+type ThemeSection = Record<string, any>;
+export type TailwindTheme = Record<string, ThemeSection>;
+
+export interface TailwindConfig {
+  prefix?: string;
+  important?: boolean | string;
+  darkMode?: string | string[];
+  theme?: TailwindTheme & { extend?: TailwindTheme };
+}
+
+export interface TailwindCssResult {
+  base: string;
+  utilities: string;
+  matched: string[];
+}
+
+interface GeneratorContext {
+  theme: TailwindTheme;
+  colors: Map<string, string>;
+  prefix: string;
+  important: boolean;
+  darkSelector: string | null;
+}
+
+interface UtilityResult {
+  declarations: Record<string, string>;
+  selectorSuffix?: string;
+  keyframes?: string;
+}
+
+type UtilityRule = (utility: string, ctx: GeneratorContext, negative: boolean) => UtilityResult | null;
+
+const PALETTE_SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+
+const PALETTE: Record<string, string> = {
+  slate: 'f8fafc f1f5f9 e2e8f0 cbd5e1 94a3b8 64748b 475569 334155 1e293b 0f172a 020617',
+  gray: 'f9fafb f3f4f6 e5e7eb d1d5db 9ca3af 6b7280 4b5563 374151 1f2937 111827 030712',
+  zinc: 'fafafa f4f4f5 e4e4e7 d4d4d8 a1a1aa 71717a 52525b 3f3f46 27272a 18181b 09090b',
+  neutral: 'fafafa f5f5f5 e5e5e5 d4d4d4 a3a3a3 737373 525252 404040 262626 171717 0a0a0a',
+  stone: 'fafaf9 f5f5f4 e7e5e4 d6d3d1 a8a29e 78716c 57534e 44403c 292524 1c1917 0c0a09',
+  red: 'fef2f2 fee2e2 fecaca fca5a5 f87171 ef4444 dc2626 b91c1c 991b1b 7f1d1d 450a0a',
+  orange: 'fff7ed ffedd5 fed7aa fdba74 fb923c f97316 ea580c c2410c 9a3412 7c2d12 431407',
+  amber: 'fffbeb fef3c7 fde68a fcd34d fbbf24 f59e0b d97706 b45309 92400e 78350f 451a03',
+  yellow: 'fefce8 fef9c3 fef08a fde047 facc15 eab308 ca8a04 a16207 854d0e 713f12 422006',
+  lime: 'f7fee7 ecfccb d9f99d bef264 a3e635 84cc16 65a30d 4d7c0f 3f6212 365314 1a2e05',
+  green: 'f0fdf4 dcfce7 bbf7d0 86efac 4ade80 22c55e 16a34a 15803d 166534 14532d 052e16',
+  emerald: 'ecfdf5 d1fae5 a7f3d0 6ee7b7 34d399 10b981 059669 047857 065f46 064e3b 022c22',
+  teal: 'f0fdfa ccfbf1 99f6e4 5eead4 2dd4bf 14b8a6 0d9488 0f766e 115e59 134e4a 042f2e',
+  cyan: 'ecfeff cffafe a5f3fc 67e8f9 22d3ee 06b6d4 0891b2 0e7490 155e75 164e63 083344',
+  sky: 'f0f9ff e0f2fe bae6fd 7dd3fc 38bdf8 0ea5e9 0284c7 0369a1 075985 0c4a6e 082f49',
+  blue: 'eff6ff dbeafe bfdbfe 93c5fd 60a5fa 3b82f6 2563eb 1d4ed8 1e40af 1e3a8a 172554',
+  indigo: 'eef2ff e0e7ff c7d2fe a5b4fc 818cf8 6366f1 4f46e5 4338ca 3730a3 312e81 1e1b4b',
+  violet: 'f5f3ff ede9fe ddd6fe c4b5fd a78bfa 8b5cf6 7c3aed 6d28d9 5b21b6 4c1d95 2e1065',
+  purple: 'faf5ff f3e8ff e9d5ff d8b4fe c084fc a855f7 9333ea 7e22ce 6b21a8 581c87 3b0764',
+  fuchsia: 'fdf4ff fae8ff f5d0fe f0abfc e879f9 d946ef c026d3 a21caf 86198f 701a75 4a044e',
+  pink: 'fdf2f8 fce7f3 fbcfe8 f9a8d4 f472b6 ec4899 db2777 be185d 9d174d 831843 500724',
+  rose: 'fff1f2 ffe4e6 fecdd3 fda4af fb7185 f43f5e e11d48 be123c 9f1239 881337 4c0519',
+};
+
+/**
+ * Default Tailwind color palette in the shape exported by `tailwindcss/colors`
+ */
+export const TAILWIND_COLORS: Record<string, any> = {
+  inherit: 'inherit',
+  current: 'currentColor',
+  transparent: 'transparent',
+  black: '#000000',
+  white: '#ffffff',
+  ...Object.fromEntries(
+    Object.entries(PALETTE).map(([name, hexes]) => [
+      name,
+      Object.fromEntries(hexes.split(' ').map((hex, index) => [PALETTE_SHADES[index], `#${hex}`])),
+    ])
+  ),
+};
+
+/**
+ * Default theme sections consulted by the generator
+ */
+export const DEFAULT_TAILWIND_THEME: TailwindTheme = {
+  colors: TAILWIND_COLORS,
+  screens: { sm: '640px', md: '768px', lg: '1024px', xl: '1280px', '2xl': '1536px' },
+  spacing: { px: '1px', '0': '0px' },
+  fontFamily: {
+    sans: ['ui-sans-serif', 'system-ui', 'sans-serif', '"Apple Color Emoji"', '"Segoe UI Emoji"'],
+    serif: ['ui-serif', 'Georgia', 'Cambria', '"Times New Roman"', 'Times', 'serif'],
+    mono: ['ui-monospace', 'SFMono-Regular', 'Menlo', 'Monaco', 'Consolas', 'monospace'],
+  },
+  fontSize: {
+    xs: ['0.75rem', '1rem'],
+    sm: ['0.875rem', '1.25rem'],
+    base: ['1rem', '1.5rem'],
+    lg: ['1.125rem', '1.75rem'],
+    xl: ['1.25rem', '1.75rem'],
+    '2xl': ['1.5rem', '2rem'],
+    '3xl': ['1.875rem', '2.25rem'],
+    '4xl': ['2.25rem', '2.5rem'],
+    '5xl': ['3rem', '1'],
+    '6xl': ['3.75rem', '1'],
+    '7xl': ['4.5rem', '1'],
+    '8xl': ['6rem', '1'],
+    '9xl': ['8rem', '1'],
+  },
+  fontWeight: {
+    thin: '100', extralight: '200', light: '300', normal: '400', medium: '500',
+    semibold: '600', bold: '700', extrabold: '800', black: '900',
+  },
+  lineHeight: {
+    none: '1', tight: '1.25', snug: '1.375', normal: '1.5', relaxed: '1.625', loose: '2',
+    '3': '.75rem', '4': '1rem', '5': '1.25rem', '6': '1.5rem', '7': '1.75rem', '8': '2rem', '9': '2.25rem', '10': '2.5rem',
+  },
+  letterSpacing: {
+    tighter: '-0.05em', tight: '-0.025em', normal: '0em', wide: '0.025em', wider: '0.05em', widest: '0.1em',
+  },
+  borderRadius: {
+    none: '0px', sm: '0.125rem', DEFAULT: '0.25rem', md: '0.375rem', lg: '0.5rem',
+    xl: '0.75rem', '2xl': '1rem', '3xl': '1.5rem', full: '9999px',
+  },
+  borderWidth: { DEFAULT: '1px', '0': '0px', '2': '2px', '4': '4px', '8': '8px' },
+  boxShadow: {
+    sm: '0 1px 2px 0 rgb(0 0 0 / 0.05)',
+    DEFAULT: '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
+    md: '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)',
+    lg: '0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)',
+    xl: '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)',
+    '2xl': '0 25px 50px -12px rgb(0 0 0 / 0.25)',
+    inner: 'inset 0 2px 4px 0 rgb(0 0 0 / 0.05)',
+    none: '0 0 #0000',
+  },
+  maxWidth: {
+    none: 'none', xs: '20rem', sm: '24rem', md: '28rem', lg: '32rem', xl: '36rem', '2xl': '42rem',
+    '3xl': '48rem', '4xl': '56rem', '5xl': '64rem', '6xl': '72rem', '7xl': '80rem', prose: '65ch',
+  },
+  blur: { none: '0', sm: '4px', DEFAULT: '8px', md: '12px', lg: '16px', xl: '24px', '2xl': '40px', '3xl': '64px' },
+  transitionTimingFunction: {
+    DEFAULT: 'cubic-bezier(0.4, 0, 0.2, 1)', linear: 'linear',
+    in: 'cubic-bezier(0.4, 0, 1, 1)', out: 'cubic-bezier(0, 0, 0.2, 1)', 'in-out': 'cubic-bezier(0.4, 0, 0.2, 1)',
+  },
+  animation: {
+    none: 'none',
+    spin: 'spin 1s linear infinite',
+    ping: 'ping 1s cubic-bezier(0, 0, 0.2, 1) infinite',
+    pulse: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
+    bounce: 'bounce 1s infinite',
+  },
+  keyframes: {
+    spin: { to: { transform: 'rotate(360deg)' } },
+    ping: { '75%, 100%': { transform: 'scale(2)', opacity: '0' } },
+    pulse: { '50%': { opacity: '.5' } },
+    bounce: {
+      '0%, 100%': { transform: 'translateY(-25%)', 'animation-timing-function': 'cubic-bezier(0.8,0,1,1)' },
+      '50%': { transform: 'none', 'animation-timing-function': 'cubic-bezier(0,0,0.2,1)' },
+    },
+  },
+};
+
+/**
+ * Modules that tailwind.config files commonly require
+ */
+export const TAILWIND_MODULES: Record<string, any> = {
+  'tailwindcss/colors': TAILWIND_COLORS,
+  'tailwindcss/defaultTheme': DEFAULT_TAILWIND_THEME,
+  'tailwindcss/plugin': Object.assign((handler: unknown) => ({ handler }), {
+    withOptions: () => () => ({}),
+  }),
+};
+
+const PREFLIGHT = `
+*, ::before, ::after { box-sizing: border-box; border-width: 0; border-style: solid; border-color: #e5e7eb; }
+::before, ::after { --tw-content: ''; }
+h1, h2, h3, h4, h5, h6 { font-size: inherit; font-weight: inherit; }
+blockquote, dl, dd, h1, h2, h3, h4, h5, h6, hr, figure, p, pre { margin: 0; }
+a { color: inherit; text-decoration: inherit; }
+b, strong { font-weight: bolder; }
+table { text-indent: 0; border-color: inherit; border-collapse: collapse; }
+button, input, optgroup, select, textarea { font-family: inherit; font-size: 100%; font-weight: inherit; line-height: inherit; color: inherit; margin: 0; padding: 0; }
+button, [type='button'], [type='reset'], [type='submit'] { -webkit-appearance: button; background-color: transparent; background-image: none; }
+fieldset, legend { margin: 0; padding: 0; }
+ol, ul, menu { list-style: none; margin: 0; padding: 0; }
+img, svg, video, canvas, audio, iframe, embed, object { display: block; vertical-align: middle; }
+img, video { max-width: 100%; height: auto; }
+[hidden] { display: none; }
+*, ::before, ::after {
+  --tw-translate-x: 0; --tw-translate-y: 0; --tw-rotate: 0; --tw-skew-x: 0; --tw-skew-y: 0;
+  --tw-scale-x: 1; --tw-scale-y: 1; --tw-ring-color: rgb(59 130 246 / 0.5);
+}
+`;
+
+const TRANSFORM_VALUE =
+  'translate(var(--tw-translate-x), var(--tw-translate-y)) rotate(var(--tw-rotate)) skewX(var(--tw-skew-x)) skewY(var(--tw-skew-y)) scaleX(var(--tw-scale-x)) scaleY(var(--tw-scale-y))';
+
+const SIDE_PROPS: Record<string, string[]> = {
+  '': [''],
+  x: ['-left', '-right'],
+  y: ['-top', '-bottom'],
+  t: ['-top'],
+  r: ['-right'],
+  b: ['-bottom'],
+  l: ['-left'],
+  s: ['-inline-start'],
+  e: ['-inline-end'],
+};
+
+const CORNER_PROPS: Record<string, string[]> = {
+  '': ['border-radius'],
+  t: ['border-top-left-radius', 'border-top-right-radius'],
+  r: ['border-top-right-radius', 'border-bottom-right-radius'],
+  b: ['border-bottom-right-radius', 'border-bottom-left-radius'],
+  l: ['border-top-left-radius', 'border-bottom-left-radius'],
+  tl: ['border-top-left-radius'],
+  tr: ['border-top-right-radius'],
+  br: ['border-bottom-right-radius'],
+  bl: ['border-bottom-left-radius'],
+};
+
+const PSEUDO_VARIANTS: Record<string, string> = {
+  hover: ':hover',
+  focus: ':focus',
+  'focus-within': ':focus-within',
+  'focus-visible': ':focus-visible',
+  active: ':active',
+  visited: ':visited',
+  disabled: ':disabled',
+  enabled: ':enabled',
+  checked: ':checked',
+  required: ':required',
+  invalid: ':invalid',
+  first: ':first-child',
+  last: ':last-child',
+  only: ':only-child',
+  odd: ':nth-child(odd)',
+  even: ':nth-child(even)',
+  empty: ':empty',
+  'first-of-type': ':first-of-type',
+  'last-of-type': ':last-of-type',
+  placeholder: '::placeholder',
+  selection: '::selection',
+  marker: '::marker',
+  before: '::before',
+  after: '::after',
+};
+
+const GROUP_VARIANTS = new Set(['hover', 'focus', 'active', 'focus-within', 'disabled', 'checked']);
+
+const arbitraryValue = (value: string): string | null => {
+  const match = value.match(/^\[(.+)\]$/);
+  return match ? match[1].replace(/_/g, ' ') : null;
+};
+
+const isLengthValue = (value: string) =>
+  /^-?[\d.]+(px|rem|em|%|vh|vw|vmin|vmax|svh|dvh|lvh|ch|ex|pt|pc|cm|mm|in)?$/.test(value) ||
+  /^(calc|min|max|clamp|var)\(/.test(value);
+
+const isColorValue = (value: string) =>
+  /^#[0-9a-f]{3,8}$/i.test(value) || /^(rgb|rgba|hsl|hsla|hwb|oklch|oklab|lab|lch|color-mix|color)\(/.test(value);
+
+const negate = (value: string, negative: boolean) => {
+  if (!negative) return value;
+  if (/^[\d.]+[a-z%]*$/.test(value)) return `-${value}`;
+  return `calc(${value} * -1)`;
+};
+
+const hexToRgbChannels = (hex: string): string | null => {
+  let raw = hex.replace('#', '');
+  if (raw.length === 3 || raw.length === 4) raw = raw.split('').map((c) => c + c).join('');
+  if (raw.length !== 6 && raw.length !== 8) return null;
+  const r = parseInt(raw.slice(0, 2), 16);
+  const g = parseInt(raw.slice(2, 4), 16);
+  const b = parseInt(raw.slice(4, 6), 16);
+  return [r, g, b].some(Number.isNaN) ? null : `${r} ${g} ${b}`;
+};
+
+const withAlpha = (color: string, alpha: number) => {
+  if (color === 'transparent' || color === 'inherit') return color;
+  const channels = color.startsWith('#') ? hexToRgbChannels(color) : null;
+  if (channels) return `rgb(${channels} / ${alpha})`;
+  return `color-mix(in srgb, ${color} ${Math.round(alpha * 1000) / 10}%, transparent)`;
+};
+
+/**
+ * Splits "value/modifier" on the last slash that is not inside brackets
+ */
+const splitModifier = (value: string): [string, string | null] => {
+  let depth = 0;
+  for (let i = value.length - 1; i >= 0; i--) {
+    const char = value[i];
+    if (char === ']') depth++;
+    else if (char === '[') depth--;
+    else if (char === '/' && depth === 0) return [value.slice(0, i), value.slice(i + 1)];
+  }
+  return [value, null];
+};
+
+/**
+ * Splits "md:hover:bg-red-500" into variants and utility, ignoring colons inside brackets
+ */
+const splitVariants = (candidate: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of candidate) {
+    if (char === '[') depth++;
+    if (char === ']') depth--;
+    if (char === ':' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+};
+
+const flattenColors = (colors: Record<string, any>, prefix = '', out = new Map<string, string>()) => {
+  Object.entries(colors || {}).forEach(([key, value]) => {
+    const name = key === 'DEFAULT' ? prefix : prefix ? `${prefix}-${key}` : key;
+    if (typeof value === 'string') {
+      out.set(name, value);
+    } else if (value && typeof value === 'object') {
+      flattenColors(value, name, out);
+    }
+  });
+  return out;
+};
+
+const colorValue = (ctx: GeneratorContext, value: string): string | null => {
+  const [name, modifier] = splitModifier(value);
+  const arbitrary = arbitraryValue(name);
+  const base = ctx.colors.get(name)
+    ?? (arbitrary && !isLengthValue(arbitrary) && !arbitrary.startsWith('url(') ? arbitrary.replace(/^color:/, '') : null);
+  if (!base) return null;
+  if (!modifier) return base;
+  const alphaRaw = arbitraryValue(modifier) ?? modifier;
+  const alpha = alphaRaw.endsWith('%') ? parseFloat(alphaRaw) / 100 : parseFloat(alphaRaw) / (alphaRaw.includes('.') ? 1 : 100);
+  return Number.isNaN(alpha) ? null : withAlpha(base, alpha);
+};
+
+const spacingValue = (ctx: GeneratorContext, value: string): string | null => {
+  const themed = ctx.theme.spacing?.[value];
+  if (typeof themed === 'string') return themed;
+  if (/^\d+(\.\d+)?$/.test(value) && (Number(value) * 4) % 1 === 0) {
+    return Number(value) === 0 ? '0px' : `${Number(value) * 0.25}rem`;
+  }
+  return arbitraryValue(value);
+};
+
+const sizeValue = (ctx: GeneratorContext, value: string, axis: 'w' | 'h'): string | null => {
+  const keywords: Record<string, string> = {
+    auto: 'auto',
+    full: '100%',
+    screen: axis === 'w' ? '100vw' : '100vh',
+    svh: '100svh',
+    dvh: '100dvh',
+    min: 'min-content',
+    max: 'max-content',
+    fit: 'fit-content',
+  };
+  if (keywords[value]) return keywords[value];
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return `${(Number(fraction[1]) / Number(fraction[2])) * 100}%`;
+  return spacingValue(ctx, value);
+};
+
+const themeValue = (ctx: GeneratorContext, section: string, value: string): any => {
+  const key = value === '' ? 'DEFAULT' : value;
+  const themed = ctx.theme[section]?.[key];
+  if (themed !== undefined) return themed;
+  return value === '' ? null : arbitraryValue(value);
+};
+
+const fontFamilyValue = (value: string | string[]) => (Array.isArray(value) ? value.join(', ') : value);
+
+const decl = (declarations: Record<string, string>): UtilityResult => ({ declarations });
+
+/**
+ * Helper for "prefix-value" utilities mapped onto one or more properties
+ */
+const valueRule = (
+  prefix: string,
+  properties: string[],
+  resolve: (ctx: GeneratorContext, value: string) => string | null,
+  allowNegative = false
+): UtilityRule => (utility, ctx, negative) => {
+  if (!utility.startsWith(`${prefix}-`)) return null;
+  if (negative && !allowNegative) return null;
+  const value = resolve(ctx, utility.slice(prefix.length + 1));
+  if (value === null || value === undefined) return null;
+  return decl(Object.fromEntries(properties.map((prop) => [prop, negate(value, negative)])));
+};
+
+const staticRule = (map: Record<string, Record<string, string>>): UtilityRule => (utility, _ctx, negative) =>
+  !negative && map[utility] ? decl(map[utility]) : null;
+
+const sidedRule = (base: 'p' | 'm' | 'inset', property: string): UtilityRule[] =>
+  Object.entries(SIDE_PROPS).filter(([side]) => base !== 'inset' || ['', 'x', 'y'].includes(side)).map(([side, suffixes]) => (utility, ctx, negative) => {
+    const prefix = base === 'inset' ? (side ? `inset-${side}` : 'inset') : `${base}${side}`;
+    if (!utility.startsWith(`${prefix}-`)) return null;
+    if (negative && base === 'p') return null;
+    const raw = utility.slice(prefix.length + 1);
+    const value = base === 'inset' ? sizeValue(ctx, raw, 'w') : raw === 'auto' ? 'auto' : spacingValue(ctx, raw);
+    if (!value) return null;
+    if (base === 'inset') {
+      const props = side === 'x' ? ['left', 'right'] : side === 'y' ? ['top', 'bottom'] : ['top', 'right', 'bottom', 'left'];
+      return decl(Object.fromEntries(props.map((prop) => [prop, negate(value, negative)])));
+    }
+    return decl(Object.fromEntries(suffixes.map((suffix) => [`${property}${suffix}`, negate(value, negative)])));
+  });
+
+const transformRule = (prefix: string, vars: string[], resolve: (value: string) => string | null): UtilityRule =>
+  (utility, _ctx, negative) => {
+    if (!utility.startsWith(`${prefix}-`)) return null;
+    const value = resolve(utility.slice(prefix.length + 1));
+    if (!value) return null;
+    return decl({
+      ...Object.fromEntries(vars.map((name) => [name, negate(value, negative)])),
+      transform: TRANSFORM_VALUE,
+    });
+  };
+
+const keyframesCss = (name: string, frames: Record<string, Record<string, string>>) =>
+  `@keyframes ${name} { ${Object.entries(frames)
+    .map(([step, props]) => `${step} { ${Object.entries(props).map(([prop, value]) => `${prop}: ${value};`).join(' ')} }`)
+    .join(' ')} }`;
+
+/**
+ * Ordered utility rules. The index of a rule is its cascade rank, so later
+ * families (e.g. padding-x) correctly override earlier ones (padding).
+ */
+const UTILITY_RULES: UtilityRule[] = [
+  staticRule({
+    container: { width: '100%' },
+    'sr-only': {
+      position: 'absolute', width: '1px', height: '1px', padding: '0', margin: '-1px',
+      overflow: 'hidden', clip: 'rect(0, 0, 0, 0)', 'white-space': 'nowrap', 'border-width': '0',
+    },
+    'pointer-events-none': { 'pointer-events': 'none' },
+    'pointer-events-auto': { 'pointer-events': 'auto' },
+    visible: { visibility: 'visible' },
+    invisible: { visibility: 'hidden' },
+    collapse: { visibility: 'collapse' },
+    static: { position: 'static' },
+    fixed: { position: 'fixed' },
+    absolute: { position: 'absolute' },
+    relative: { position: 'relative' },
+    sticky: { position: 'sticky' },
+  }),
+  ...sidedRule('inset', 'inset'),
+  ...(['top', 'right', 'bottom', 'left', 'start', 'end'] as const).map((side) =>
+    valueRule(side, [side === 'start' ? 'inset-inline-start' : side === 'end' ? 'inset-inline-end' : side], (ctx, v) => sizeValue(ctx, v, 'w'), true)
+  ),
+  valueRule('z', ['z-index'], (_ctx, v) => (v === 'auto' || /^\d+$/.test(v) ? v : arbitraryValue(v)), true),
+  valueRule('order', ['order'], (_ctx, v) =>
+    v === 'first' ? '-9999' : v === 'last' ? '9999' : v === 'none' ? '0' : /^\d+$/.test(v) ? v : arbitraryValue(v), true),
+  staticRule({ 'col-auto': { 'grid-column': 'auto' }, 'col-span-full': { 'grid-column': '1 / -1' } }),
+  valueRule('col-span', ['grid-column'], (_ctx, v) => (/^\d+$/.test(v) ? `span ${v} / span ${v}` : null)),
+  valueRule('col-start', ['grid-column-start'], (_ctx, v) => (/^\d+$|^auto$/.test(v) ? v : arbitraryValue(v))),
+  valueRule('col-end', ['grid-column-end'], (_ctx, v) => (/^\d+$|^auto$/.test(v) ? v : arbitraryValue(v))),
+  staticRule({ 'row-auto': { 'grid-row': 'auto' }, 'row-span-full': { 'grid-row': '1 / -1' } }),
+  valueRule('row-span', ['grid-row'], (_ctx, v) => (/^\d+$/.test(v) ? `span ${v} / span ${v}` : null)),
+  valueRule('row-start', ['grid-row-start'], (_ctx, v) => (/^\d+$|^auto$/.test(v) ? v : arbitraryValue(v))),
+  valueRule('row-end', ['grid-row-end'], (_ctx, v) => (/^\d+$|^auto$/.test(v) ? v : arbitraryValue(v))),
+  staticRule({
+    'float-left': { float: 'left' }, 'float-right': { float: 'right' }, 'float-none': { float: 'none' },
+    'clear-both': { clear: 'both' }, 'clear-none': { clear: 'none' },
+  }),
+  ...sidedRule('m', 'margin'),
+  staticRule({ 'box-border': { 'box-sizing': 'border-box' }, 'box-content': { 'box-sizing': 'content-box' } }),
+  (utility) => {
+    const match = utility.match(/^line-clamp-(\d+|none)$/);
+    if (!match) return null;
+    if (match[1] === 'none') return decl({ overflow: 'visible', display: 'block', '-webkit-line-clamp': 'none' });
+    return decl({ overflow: 'hidden', display: '-webkit-box', '-webkit-box-orient': 'vertical', '-webkit-line-clamp': match[1] });
+  },
+  staticRule({
+    block: { display: 'block' }, 'inline-block': { display: 'inline-block' }, inline: { display: 'inline' },
+    flex: { display: 'flex' }, 'inline-flex': { display: 'inline-flex' }, grid: { display: 'grid' },
+    'inline-grid': { display: 'inline-grid' }, table: { display: 'table' }, 'table-row': { display: 'table-row' },
+    'table-cell': { display: 'table-cell' }, contents: { display: 'contents' }, 'flow-root': { display: 'flow-root' },
+    'list-item': { display: 'list-item' }, hidden: { display: 'none' },
+  }),
+  valueRule('aspect', ['aspect-ratio'], (_ctx, v) =>
+    v === 'auto' ? 'auto' : v === 'square' ? '1 / 1' : v === 'video' ? '16 / 9' : /^\d+\/\d+$/.test(v) ? v.replace('/', ' / ') : arbitraryValue(v)),
+  valueRule('size', ['width', 'height'], (ctx, v) => sizeValue(ctx, v, 'w')),
+  valueRule('h', ['height'], (ctx, v) => sizeValue(ctx, v, 'h')),
+  valueRule('max-h', ['max-height'], (ctx, v) => (v === 'none' ? 'none' : sizeValue(ctx, v, 'h'))),
+  valueRule('min-h', ['min-height'], (ctx, v) => sizeValue(ctx, v, 'h')),
+  valueRule('w', ['width'], (ctx, v) => sizeValue(ctx, v, 'w')),
+  valueRule('min-w', ['min-width'], (ctx, v) => sizeValue(ctx, v, 'w')),
+  valueRule('max-w', ['max-width'], (ctx, v) => {
+    const themed = ctx.theme.maxWidth?.[v];
+    if (typeof themed === 'string') return themed;
+    const screen = v.match(/^screen-(.+)$/);
+    if (screen && ctx.theme.screens?.[screen[1]]) return String(ctx.theme.screens[screen[1]]);
+    return sizeValue(ctx, v, 'w');
+  }),
+  staticRule({
+    'flex-1': { flex: '1 1 0%' }, 'flex-auto': { flex: '1 1 auto' }, 'flex-initial': { flex: '0 1 auto' },
+    'flex-none': { flex: 'none' },
+    shrink: { 'flex-shrink': '1' }, 'shrink-0': { 'flex-shrink': '0' },
+    'flex-shrink': { 'flex-shrink': '1' }, 'flex-shrink-0': { 'flex-shrink': '0' },
+    grow: { 'flex-grow': '1' }, 'grow-0': { 'flex-grow': '0' },
+    'flex-grow': { 'flex-grow': '1' }, 'flex-grow-0': { 'flex-grow': '0' },
+  }),
+  valueRule('basis', ['flex-basis'], (ctx, v) => sizeValue(ctx, v, 'w')),
+  staticRule({
+    'table-auto': { 'table-layout': 'auto' }, 'table-fixed': { 'table-layout': 'fixed' },
+    'border-collapse': { 'border-collapse': 'collapse' }, 'border-separate': { 'border-collapse': 'separate' },
+  }),
+  transformRule('translate-x', ['--tw-translate-x'], (v) => (/^(\d+)\/(\d+)$/.test(v) ? `${(Number(v.split('/')[0]) / Number(v.split('/')[1])) * 100}%` : v === 'full' ? '100%' : /^\d+(\.\d+)?$/.test(v) ? `${Number(v) * 0.25}rem` : v === 'px' ? '1px' : arbitraryValue(v))),
+  transformRule('translate-y', ['--tw-translate-y'], (v) => (/^(\d+)\/(\d+)$/.test(v) ? `${(Number(v.split('/')[0]) / Number(v.split('/')[1])) * 100}%` : v === 'full' ? '100%' : /^\d+(\.\d+)?$/.test(v) ? `${Number(v) * 0.25}rem` : v === 'px' ? '1px' : arbitraryValue(v))),
+  transformRule('rotate', ['--tw-rotate'], (v) => (/^\d+(\.\d+)?$/.test(v) ? `${v}deg` : arbitraryValue(v))),
+  transformRule('skew-x', ['--tw-skew-x'], (v) => (/^\d+$/.test(v) ? `${v}deg` : arbitraryValue(v))),
+  transformRule('skew-y', ['--tw-skew-y'], (v) => (/^\d+$/.test(v) ? `${v}deg` : arbitraryValue(v))),
+  transformRule('scale', ['--tw-scale-x', '--tw-scale-y'], (v) => (/^\d+$/.test(v) ? `${Number(v) / 100}` : arbitraryValue(v))),
+  transformRule('scale-x', ['--tw-scale-x'], (v) => (/^\d+$/.test(v) ? `${Number(v) / 100}` : arbitraryValue(v))),
+  transformRule('scale-y', ['--tw-scale-y'], (v) => (/^\d+$/.test(v) ? `${Number(v) / 100}` : arbitraryValue(v))),
+  staticRule({ transform: { transform: TRANSFORM_VALUE }, 'transform-none': { transform: 'none' } }),
+  (utility, ctx) => {
+    if (!utility.startsWith('animate-')) return null;
+    const key = utility.slice('animate-'.length);
+    const value = themeValue(ctx, 'animation', key);
+    if (typeof value !== 'string') return null;
+    const name = value.split(' ')[0];
+    const frames = ctx.theme.keyframes?.[name];
+    return { declarations: { animation: value }, keyframes: frames ? keyframesCss(name, frames) : undefined };
+  },
+  valueRule('cursor', ['cursor'], (_ctx, v) => arbitraryValue(v) ?? v),
+  staticRule({
+    'select-none': { 'user-select': 'none' }, 'select-text': { 'user-select': 'text' },
+    'select-all': { 'user-select': 'all' }, 'select-auto': { 'user-select': 'auto' },
+    'resize-none': { resize: 'none' }, resize: { resize: 'both' },
+    'list-none': { 'list-style-type': 'none' }, 'list-disc': { 'list-style-type': 'disc' },
+    'list-decimal': { 'list-style-type': 'decimal' },
+    'list-inside': { 'list-style-position': 'inside' }, 'list-outside': { 'list-style-position': 'outside' },
+    'appearance-none': { appearance: 'none' },
+  }),
+  valueRule('columns', ['columns'], (_ctx, v) => (/^\d+$/.test(v) ? v : arbitraryValue(v))),
+  staticRule({
+    'grid-flow-row': { 'grid-auto-flow': 'row' }, 'grid-flow-col': { 'grid-auto-flow': 'column' },
+    'grid-flow-dense': { 'grid-auto-flow': 'dense' },
+    'auto-cols-auto': { 'grid-auto-columns': 'auto' }, 'auto-cols-fr': { 'grid-auto-columns': 'minmax(0, 1fr)' },
+    'auto-rows-auto': { 'grid-auto-rows': 'auto' }, 'auto-rows-fr': { 'grid-auto-rows': 'minmax(0, 1fr)' },
+  }),
+  valueRule('grid-cols', ['grid-template-columns'], (_ctx, v) =>
+    /^\d+$/.test(v) ? `repeat(${v}, minmax(0, 1fr))` : v === 'none' ? 'none' : arbitraryValue(v)),
+  valueRule('grid-rows', ['grid-template-rows'], (_ctx, v) =>
+    /^\d+$/.test(v) ? `repeat(${v}, minmax(0, 1fr))` : v === 'none' ? 'none' : arbitraryValue(v)),
+  staticRule({
+    'flex-row': { 'flex-direction': 'row' }, 'flex-row-reverse': { 'flex-direction': 'row-reverse' },
+    'flex-col': { 'flex-direction': 'column' }, 'flex-col-reverse': { 'flex-direction': 'column-reverse' },
+    'flex-wrap': { 'flex-wrap': 'wrap' }, 'flex-wrap-reverse': { 'flex-wrap': 'wrap-reverse' },
+    'flex-nowrap': { 'flex-wrap': 'nowrap' },
+  }),
+  (utility) => {
+    const match = utility.match(/^(place-content|place-items|content|items|justify-items|justify)-(.+)$/);
+    if (!match) return null;
+    const [, group, raw] = match;
+    const map: Record<string, string> = {
+      start: 'flex-start', end: 'flex-end', center: 'center', between: 'space-between',
+      around: 'space-around', evenly: 'space-evenly', stretch: 'stretch', baseline: 'baseline', normal: 'normal',
+    };
+    const property = {
+      'place-content': 'place-content', 'place-items': 'place-items', content: 'align-content',
+      items: 'align-items', 'justify-items': 'justify-items', justify: 'justify-content',
+    }[group]!;
+    const value = group === 'justify-items' || group === 'place-items'
+      ? (raw === 'start' || raw === 'end' ? raw : map[raw])
+      : map[raw];
+    return value ? decl({ [property]: value }) : null;
+  },
+  valueRule('gap', ['gap'], spacingValue),
+  valueRule('gap-x', ['column-gap'], spacingValue),
+  valueRule('gap-y', ['row-gap'], spacingValue),
+  (utility, ctx, negative) => {
+    const match = utility.match(/^space-(x|y)-(.+)$/);
+    if (!match) return null;
+    const value = spacingValue(ctx, match[2]);
+    if (!value) return null;
+    const property = match[1] === 'x' ? 'margin-left' : 'margin-top';
+    return {
+      declarations: { [property]: negate(value, negative) },
+      selectorSuffix: ' > :not([hidden]) ~ :not([hidden])',
+    };
+  },
+  (utility, ctx) => {
+    const match = utility.match(/^divide-(x|y)(?:-(\d+))?$/);
+    if (match) {
+      const width = match[2] ? `${match[2]}px` : '1px';
+      const props = match[1] === 'x'
+        ? { 'border-right-width': '0px', 'border-left-width': width, 'border-style': 'solid' }
+        : { 'border-bottom-width': '0px', 'border-top-width': width, 'border-style': 'solid' };
+      return { declarations: props, selectorSuffix: ' > :not([hidden]) ~ :not([hidden])' };
+    }
+    if (!utility.startsWith('divide-')) return null;
+    const color = colorValue(ctx, utility.slice('divide-'.length));
+    return color ? { declarations: { 'border-color': color }, selectorSuffix: ' > :not([hidden]) ~ :not([hidden])' } : null;
+  },
+  (utility) => {
+    const match = utility.match(/^(self|justify-self|place-self)-(auto|start|end|center|stretch|baseline)$/);
+    if (!match) return null;
+    const property = match[1] === 'self' ? 'align-self' : match[1];
+    const value = match[1] === 'self' && (match[2] === 'start' || match[2] === 'end') ? `flex-${match[2]}` : match[2];
+    return decl({ [property]: value });
+  },
+  (utility) => {
+    const match = utility.match(/^overflow(-x|-y)?-(auto|hidden|clip|visible|scroll)$/);
+    return match ? decl({ [`overflow${match[1] || ''}`]: match[2] }) : null;
+  },
+  staticRule({
+    truncate: { overflow: 'hidden', 'text-overflow': 'ellipsis', 'white-space': 'nowrap' },
+    'text-ellipsis': { 'text-overflow': 'ellipsis' }, 'text-clip': { 'text-overflow': 'clip' },
+    'whitespace-normal': { 'white-space': 'normal' }, 'whitespace-nowrap': { 'white-space': 'nowrap' },
+    'whitespace-pre': { 'white-space': 'pre' }, 'whitespace-pre-line': { 'white-space': 'pre-line' },
+    'whitespace-pre-wrap': { 'white-space': 'pre-wrap' },
+    'break-normal': { 'overflow-wrap': 'normal', 'word-break': 'normal' },
+    'break-words': { 'overflow-wrap': 'break-word' }, 'break-all': { 'word-break': 'break-all' },
+    'break-keep': { 'word-break': 'keep-all' },
+    'text-wrap': { 'text-wrap': 'wrap' }, 'text-nowrap': { 'text-wrap': 'nowrap' },
+    'text-balance': { 'text-wrap': 'balance' }, 'text-pretty': { 'text-wrap': 'pretty' },
+  }),
+  ...Object.entries(CORNER_PROPS).map(([corner, props]): UtilityRule => (utility, ctx) => {
+    const prefix = corner ? `rounded-${corner}` : 'rounded';
+    if (utility !== prefix && !utility.startsWith(`${prefix}-`)) return null;
+    const key = utility === prefix ? '' : utility.slice(prefix.length + 1);
+    const value = themeValue(ctx, 'borderRadius', key);
+    return typeof value === 'string' ? decl(Object.fromEntries(props.map((prop) => [prop, value]))) : null;
+  }),
+  ...Object.entries(SIDE_PROPS).filter(([side]) => side !== 's' && side !== 'e').map(([side, suffixes]): UtilityRule => (utility, ctx) => {
+    const prefix = side ? `border-${side}` : 'border';
+    if (utility !== prefix && !utility.startsWith(`${prefix}-`)) return null;
+    const key = utility === prefix ? '' : utility.slice(prefix.length + 1);
+    const themed = themeValue(ctx, 'borderWidth', key);
+    const value = typeof themed === 'string' ? themed : /^\d+$/.test(key) ? `${key}px` : null;
+    if (!value || (themed && !isLengthValue(value))) return null;
+    return decl(Object.fromEntries(suffixes.map((suffix) => [`border${suffix}-width`, value])));
+  }),
+  staticRule({
+    'border-solid': { 'border-style': 'solid' }, 'border-dashed': { 'border-style': 'dashed' },
+    'border-dotted': { 'border-style': 'dotted' }, 'border-double': { 'border-style': 'double' },
+    'border-hidden': { 'border-style': 'hidden' }, 'border-none': { 'border-style': 'none' },
+  }),
+  ...Object.entries(SIDE_PROPS).filter(([side]) => side !== 's' && side !== 'e').map(([side, suffixes]): UtilityRule => (utility, ctx) => {
+    const prefix = side ? `border-${side}` : 'border';
+    if (!utility.startsWith(`${prefix}-`)) return null;
+    const color = colorValue(ctx, utility.slice(prefix.length + 1));
+    return color ? decl(Object.fromEntries(suffixes.map((suffix) => [`border${suffix}-color`, color]))) : null;
+  }),
+  valueRule('bg', ['background-color'], colorValue),
+  (utility) => {
+    const match = utility.match(/^bg-(?:gradient|linear)-to-(t|tr|r|br|b|bl|l|tl)$/);
+    if (!match) return null;
+    const directions: Record<string, string> = {
+      t: 'top', tr: 'top right', r: 'right', br: 'bottom right', b: 'bottom', bl: 'bottom left', l: 'left', tl: 'top left',
+    };
+    return decl({ 'background-image': `linear-gradient(to ${directions[match[1]]}, var(--tw-gradient-stops))` });
+  },
+  staticRule({ 'bg-none': { 'background-image': 'none' } }),
+  (utility) => {
+    const value = utility.startsWith('bg-') ? arbitraryValue(utility.slice('bg-'.length)) : null;
+    return value?.startsWith('url(') ? decl({ 'background-image': value }) : null;
+  },
+  (utility, ctx) => {
+    if (!utility.startsWith('from-')) return null;
+    const color = colorValue(ctx, utility.slice('from-'.length));
+    if (!color) return null;
+    return decl({
+      '--tw-gradient-from': color,
+      '--tw-gradient-to': withAlpha(color.startsWith('#') ? color : 'transparent', 0),
+      '--tw-gradient-stops': 'var(--tw-gradient-from), var(--tw-gradient-to)',
+    });
+  },
+  (utility, ctx) => {
+    if (!utility.startsWith('via-')) return null;
+    const color = colorValue(ctx, utility.slice('via-'.length));
+    if (!color) return null;
+    return decl({
+      '--tw-gradient-to': withAlpha(color.startsWith('#') ? color : 'transparent', 0),
+      '--tw-gradient-stops': `var(--tw-gradient-from), ${color}, var(--tw-gradient-to)`,
+    });
+  },
+  valueRule('to', ['--tw-gradient-to'], colorValue),
+  staticRule({
+    'bg-cover': { 'background-size': 'cover' }, 'bg-contain': { 'background-size': 'contain' },
+    'bg-auto': { 'background-size': 'auto' },
+    'bg-center': { 'background-position': 'center' }, 'bg-top': { 'background-position': 'top' },
+    'bg-bottom': { 'background-position': 'bottom' }, 'bg-left': { 'background-position': 'left' },
+    'bg-right': { 'background-position': 'right' },
+    'bg-repeat': { 'background-repeat': 'repeat' }, 'bg-no-repeat': { 'background-repeat': 'no-repeat' },
+    'bg-fixed': { 'background-attachment': 'fixed' }, 'bg-clip-text': { 'background-clip': 'text', '-webkit-background-clip': 'text' },
+    'object-contain': { 'object-fit': 'contain' }, 'object-cover': { 'object-fit': 'cover' },
+    'object-fill': { 'object-fit': 'fill' }, 'object-none': { 'object-fit': 'none' },
+    'object-scale-down': { 'object-fit': 'scale-down' },
+    'object-center': { 'object-position': 'center' }, 'object-top': { 'object-position': 'top' },
+    'object-bottom': { 'object-position': 'bottom' },
+  }),
+  ...sidedRule('p', 'padding'),
+  staticRule({
+    'text-left': { 'text-align': 'left' }, 'text-center': { 'text-align': 'center' },
+    'text-right': { 'text-align': 'right' }, 'text-justify': { 'text-align': 'justify' },
+    'text-start': { 'text-align': 'start' }, 'text-end': { 'text-align': 'end' },
+    'align-baseline': { 'vertical-align': 'baseline' }, 'align-top': { 'vertical-align': 'top' },
+    'align-middle': { 'vertical-align': 'middle' }, 'align-bottom': { 'vertical-align': 'bottom' },
+  }),
+  (utility, ctx) => {
+    if (!utility.startsWith('font-')) return null;
+    const key = utility.slice('font-'.length);
+    const family = ctx.theme.fontFamily?.[key];
+    return family ? decl({ 'font-family': fontFamilyValue(family) }) : null;
+  },
+  (utility, ctx) => {
+    if (!utility.startsWith('text-')) return null;
+    const [key, lineHeightModifier] = splitModifier(utility.slice('text-'.length));
+    const themed = ctx.theme.fontSize?.[key];
+    const arbitrary = arbitraryValue(key);
+    if (themed === undefined && !(arbitrary && isLengthValue(arbitrary.replace(/^length:/, '')))) return null;
+    const [size, options] = Array.isArray(themed) ? themed : [themed ?? arbitrary!.replace(/^length:/, ''), undefined];
+    const declarations: Record<string, string> = { 'font-size': size };
+    const lineHeight = lineHeightModifier
+      ? ctx.theme.lineHeight?.[lineHeightModifier] ?? arbitraryValue(lineHeightModifier) ?? spacingValue(ctx, lineHeightModifier)
+      : typeof options === 'string' ? options : options?.lineHeight;
+    if (lineHeight) declarations['line-height'] = lineHeight;
+    if (options && typeof options === 'object' && options.letterSpacing) declarations['letter-spacing'] = options.letterSpacing;
+    if (options && typeof options === 'object' && options.fontWeight) declarations['font-weight'] = options.fontWeight;
+    return decl(declarations);
+  },
+  (utility, ctx) => {
+    if (!utility.startsWith('font-')) return null;
+    const key = utility.slice('font-'.length);
+    const weight = ctx.theme.fontWeight?.[key] ?? (/^\d{3}$/.test(key) ? key : arbitraryValue(key));
+    return weight ? decl({ 'font-weight': String(weight) }) : null;
+  },
+  staticRule({
+    uppercase: { 'text-transform': 'uppercase' }, lowercase: { 'text-transform': 'lowercase' },
+    capitalize: { 'text-transform': 'capitalize' }, 'normal-case': { 'text-transform': 'none' },
+    italic: { 'font-style': 'italic' }, 'not-italic': { 'font-style': 'normal' },
+    'tabular-nums': { 'font-variant-numeric': 'tabular-nums' },
+  }),
+  valueRule('leading', ['line-height'], (ctx, v) => ctx.theme.lineHeight?.[v] ?? arbitraryValue(v) ?? spacingValue(ctx, v)),
+  valueRule('tracking', ['letter-spacing'], (ctx, v) => ctx.theme.letterSpacing?.[v] ?? arbitraryValue(v), true),
+  valueRule('text', ['color'], colorValue),
+  staticRule({
+    underline: { 'text-decoration-line': 'underline' }, overline: { 'text-decoration-line': 'overline' },
+    'line-through': { 'text-decoration-line': 'line-through' }, 'no-underline': { 'text-decoration-line': 'none' },
+    antialiased: { '-webkit-font-smoothing': 'antialiased' },
+  }),
+  valueRule('decoration', ['text-decoration-color'], colorValue),
+  valueRule('underline-offset', ['text-underline-offset'], (_ctx, v) => (/^\d+$/.test(v) ? `${v}px` : arbitraryValue(v))),
+  valueRule('opacity', ['opacity'], (_ctx, v) => (/^\d+$/.test(v) ? `${Number(v) / 100}` : arbitraryValue(v))),
+  (utility, ctx) => {
+    if (utility !== 'shadow' && !utility.startsWith('shadow-')) return null;
+    const key = utility === 'shadow' ? '' : utility.slice('shadow-'.length);
+    const themed = themeValue(ctx, 'boxShadow', key);
+    if (typeof themed === 'string' && (ctx.theme.boxShadow?.[key || 'DEFAULT'] !== undefined || !isColorValue(themed))) {
+      return decl({ '--tw-shadow': themed, 'box-shadow': themed });
+    }
+    return null;
+  },
+  staticRule({
+    'outline-none': { outline: '2px solid transparent', 'outline-offset': '2px' },
+    outline: { 'outline-style': 'solid' }, 'outline-dashed': { 'outline-style': 'dashed' },
+  }),
+  (utility, ctx) => {
+    if (utility !== 'ring' && !utility.startsWith('ring-')) return null;
+    const key = utility === 'ring' ? '3' : utility.slice('ring-'.length);
+    if (key === 'inset') return decl({ '--tw-ring-inset': 'inset' });
+    if (/^\d+$/.test(key)) {
+      return decl({
+        '--tw-ring-shadow': `var(--tw-ring-inset,) 0 0 0 ${key}px var(--tw-ring-color)`,
+        'box-shadow': 'var(--tw-ring-shadow), var(--tw-shadow, 0 0 #0000)',
+      });
+    }
+    const color = colorValue(ctx, key);
+    return color ? decl({ '--tw-ring-color': color }) : null;
+  },
+  (utility, ctx) => {
+    const match = utility.match(/^(backdrop-)?blur(?:-(.+))?$/);
+    if (!match) return null;
+    const value = themeValue(ctx, 'blur', match[2] ?? '');
+    if (typeof value !== 'string') return null;
+    return decl({ [match[1] ? 'backdrop-filter' : 'filter']: `blur(${value})` });
+  },
+  staticRule({
+    grayscale: { filter: 'grayscale(100%)' }, 'filter-none': { filter: 'none' },
+    transition: {
+      'transition-property': 'color, background-color, border-color, text-decoration-color, fill, stroke, opacity, box-shadow, transform, filter, backdrop-filter',
+      'transition-timing-function': 'cubic-bezier(0.4, 0, 0.2, 1)', 'transition-duration': '150ms',
+    },
+    'transition-all': { 'transition-property': 'all', 'transition-timing-function': 'cubic-bezier(0.4, 0, 0.2, 1)', 'transition-duration': '150ms' },
+    'transition-colors': {
+      'transition-property': 'color, background-color, border-color, text-decoration-color, fill, stroke',
+      'transition-timing-function': 'cubic-bezier(0.4, 0, 0.2, 1)', 'transition-duration': '150ms',
+    },
+    'transition-opacity': { 'transition-property': 'opacity', 'transition-timing-function': 'cubic-bezier(0.4, 0, 0.2, 1)', 'transition-duration': '150ms' },
+    'transition-transform': { 'transition-property': 'transform', 'transition-timing-function': 'cubic-bezier(0.4, 0, 0.2, 1)', 'transition-duration': '150ms' },
+    'transition-none': { 'transition-property': 'none' },
+  }),
+  valueRule('duration', ['transition-duration'], (_ctx, v) => (/^\d+$/.test(v) ? `${v}ms` : arbitraryValue(v))),
+  valueRule('delay', ['transition-delay'], (_ctx, v) => (/^\d+$/.test(v) ? `${v}ms` : arbitraryValue(v))),
+  valueRule('ease', ['transition-timing-function'], (ctx, v) => ctx.theme.transitionTimingFunction?.[v] ?? arbitraryValue(v)),
+  valueRule('fill', ['fill'], colorValue),
+  valueRule('stroke', ['stroke'], colorValue),
+  valueRule('content', ['--tw-content', 'content'], (_ctx, v) => (v === 'none' ? 'none' : arbitraryValue(v))),
+  (utility) => {
+    const match = utility.match(/^\[([a-z-]+):(.+)\]$/);
+    return match ? decl({ [match[1]]: match[2].replace(/_/g, ' ') }) : null;
+  },
+];
+
+/**
+ * Resolves a utility (without variants) to declarations and its cascade rank
+ */
+const resolveUtility = (utility: string, ctx: GeneratorContext): (UtilityResult & { rank: number }) | null => {
+  const negative = utility.startsWith('-');
+  const name = negative ? utility.slice(1) : utility;
+  for (let rank = 0; rank < UTILITY_RULES.length; rank++) {
+    const result = UTILITY_RULES[rank](name, ctx, negative);
+    if (result) return { ...result, rank };
+  }
+  return null;
+};
+
+const escapeClassName = (value: string) =>
+  typeof CSS !== 'undefined' && CSS.escape
+    ? CSS.escape(value)
+    : value.replace(/[^a-zA-Z0-9_-]/g, (char) => `\\${char}`);
+
+const mergeTheme = (config?: TailwindConfig): TailwindTheme => {
+  const theme: TailwindTheme = { ...DEFAULT_TAILWIND_THEME };
+  const userTheme = config?.theme || {};
+  const resolveSection = (value: any) =>
+    typeof value === 'function'
+      ? value({ theme: (path: string) => path.split('.').reduce((acc: any, key) => acc?.[key], theme), colors: TAILWIND_COLORS })
+      : value;
+
+  Object.entries(userTheme).forEach(([key, value]) => {
+    if (key === 'extend') return;
+    theme[key] = resolveSection(value);
+  });
+  Object.entries(userTheme.extend || {}).forEach(([key, value]) => {
+    theme[key] = { ...(theme[key] || {}), ...resolveSection(value) };
+  });
+  return theme;
+};
+
+const createContext = (config?: TailwindConfig): GeneratorContext => {
+  const theme = mergeTheme(config);
+  const darkMode = Array.isArray(config?.darkMode) ? config?.darkMode : [config?.darkMode];
+  const usesClass = darkMode[0] === 'class' || darkMode[0] === 'selector';
+  return {
+    theme,
+    colors: flattenColors(theme.colors),
+    prefix: config?.prefix || '',
+    important: config?.important === true,
+    darkSelector: usesClass ? (darkMode[1] as string | undefined) || '.dark' : null,
+  };
+};
+
+/**
+ * Extracts candidate class tokens from source files (the same heuristic
+ * Tailwind uses: any whitespace/quote-delimited token may be a class).
+ */
+export const collectTailwindCandidates = (sources: string[]): Set<string> => {
+  const candidates = new Set<string>();
+  sources.forEach((source) => {
+    source.split(/[\s"'`{}<>;=\\]+/).forEach((token) => {
+      const cleaned = token.replace(/^[(,]+|[),.]+$/g, '');
+      if (cleaned && cleaned.length < 120 && /^!?-?[a-z0-9@[]/i.test(cleaned)) {
+        candidates.add(cleaned);
+      }
+    });
+  });
+  return candidates;
+};
+
+/**
+ * Finds the shallowest tailwind.config file in a project
+ */
+export const findTailwindConfigPath = (paths: string[]): string | null => {
+  const configs = paths
+    .filter((path) => /\/tailwind\.config\.(js|cjs|mjs|ts|cts|mts)$/.test(path))
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  return configs[0] || null;
+};
+
+/**
+ * Checks whether project CSS opts into Tailwind via its directives
+ */
+export const cssUsesTailwind = (cssText: string | undefined) =>
+  Boolean(cssText && /@tailwind\s+(base|components|utilities)|@import\s+["']tailwindcss|@apply\s/.test(cssText));
+
+/**
+ * Generates base (preflight) and utility CSS for the given class candidates
+ */
+export const generateTailwindCss = (
+  candidates: Iterable<string>,
+  config?: TailwindConfig,
+  options: { rootSelector?: string } = {}
+): TailwindCssResult => {
+  const ctx = createContext(config);
+  const screens = Object.entries(ctx.theme.screens || {}).map(([name, value]) => [
+    name,
+    typeof value === 'string' ? value : (value as { min?: string })?.min || '0px',
+  ]);
+  const rules: { css: string; rank: number; screen: number; order: number }[] = [];
+  const keyframes = new Set<string>();
+  const matched: string[] = [];
+
+  Array.from(candidates).forEach((candidate, order) => {
+    const parts = splitVariants(candidate);
+    let utility = parts.pop() || '';
+    const variants = parts;
+    let important = ctx.important;
+    if (utility.startsWith('!')) {
+      important = true;
+      utility = utility.slice(1);
+    } else if (utility.endsWith('!')) {
+      important = true;
+      utility = utility.slice(0, -1);
+    }
+    if (ctx.prefix) {
+      const negative = utility.startsWith('-');
+      const bare = negative ? utility.slice(1) : utility;
+      if (!bare.startsWith(ctx.prefix)) return;
+      utility = `${negative ? '-' : ''}${bare.slice(ctx.prefix.length)}`;
+    }
+
+    const resolved = resolveUtility(utility, ctx);
+    if (!resolved) return;
+
+    let selector = `.${escapeClassName(candidate)}`;
+    const mediaQueries: string[] = [];
+    let screenIndex = 0;
+    let needsContent = false;
+
+    for (const variant of variants) {
+      const screen = screens.findIndex(([name]) => name === variant);
+      if (screen >= 0) {
+        mediaQueries.push(`(min-width: ${screens[screen][1]})`);
+        screenIndex = Math.max(screenIndex, screen + 1);
+      } else if (variant === 'dark') {
+        if (ctx.darkSelector) selector = `:is(${ctx.darkSelector} *)${selector}`;
+        else mediaQueries.push('(prefers-color-scheme: dark)');
+      } else if (variant === 'print') {
+        mediaQueries.push('print');
+      } else if (variant.startsWith('group-') && GROUP_VARIANTS.has(variant.slice('group-'.length))) {
+        selector = `.group${PSEUDO_VARIANTS[variant.slice('group-'.length)]} ${selector}`;
+      } else if (variant.startsWith('peer-') && GROUP_VARIANTS.has(variant.slice('peer-'.length))) {
+        selector = `.peer${PSEUDO_VARIANTS[variant.slice('peer-'.length)]} ~ ${selector}`;
+      } else if (PSEUDO_VARIANTS[variant]) {
+        selector = `${selector}${PSEUDO_VARIANTS[variant]}`;
+        if (variant === 'before' || variant === 'after') needsContent = true;
+      } else {
+        return;
+      }
+    }
+
+    const declarations = { ...resolved.declarations };
+    if (needsContent && !declarations.content) declarations.content = 'var(--tw-content)';
+    const body = Object.entries(declarations)
+      .map(([prop, value]) => `${prop}: ${value}${important ? ' !important' : ''};`)
+      .join(' ');
+    let css = `${selector}${resolved.selectorSuffix || ''} { ${body} }`;
+    if (mediaQueries.length > 0) {
+      css = `@media ${mediaQueries.join(' and ')} { ${css} }`;
+    }
+    if (resolved.keyframes) keyframes.add(resolved.keyframes);
+    rules.push({ css, rank: resolved.rank, screen: screenIndex, order });
+    matched.push(candidate);
+  });
+
+  rules.sort((a, b) => a.screen - b.screen || a.rank - b.rank || a.order - b.order);
+
+  // Tailwind sets line-height on <html>; inside a sandbox the stage root plays that role
+  const rootRule = options.rootSelector ? `${options.rootSelector} > * { line-height: 1.5; tab-size: 4; }` : '';
+
+  return {
+    base: matched.length > 0 ? `${PREFLIGHT}${rootRule}` : '',
+    utilities: [...keyframes, ...rules.map((rule) => rule.css)].join('\n'),
+    matched,
+  };
+};
+
+/**
+ * Expands `@apply` directives in project CSS into plain declarations
+ */
+export const expandTailwindApply = (cssText: string, config?: TailwindConfig): string => {
+  if (!cssText.includes('@apply')) return cssText;
+  const ctx = createContext(config);
+  return cssText.replace(/@apply\s+([^;}]+);?/g, (_full, list: string) =>
+    list
+      .trim()
+      .split(/\s+/)
+      .map((name) => {
+        const important = name.startsWith('!');
+        const resolved = resolveUtility(important ? name.slice(1) : name, ctx);
+        if (!resolved || resolved.selectorSuffix) return '';
+        return Object.entries(resolved.declarations)
+          .map(([prop, value]) => `${prop}: ${value}${important ? ' !important' : ''};`)
+          .join(' ');
+      })
+      .join(' ')
+  );
+};
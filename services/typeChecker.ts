@@ -0,0 +1,254 @@
+/// <reference types="vite/client" />
+/**
+ * Type Checker Service
+ *
+ * Strict check mode: builds an in-memory TypeScript language service over the
+ * entry and every project file, with the standard library and the `@types/react` declarations,
+ * and reports each diagnostic with its location and a code frame before rendering.
+ */
+
+import * as ts from 'typescript';
+import { ProjectContext, TypeDiagnostic } from '../types';
+import { buildCodeFrame } from './codeFrame';
+import { ConversionError } from './errors';
+import { BUNDLED_LIBRARY_NAMES } from './bundledLibraries';
+import { isVendoredPath, listVendorPackages } from './packageResolver';
+import { findRootConfig, parseJsonc } from './pathAliases';
+import { buildModuleTypings, MODULE_TYPINGS_PATH } from './moduleTypings';
+
+/** Standard library declarations, each loaded as its own chunk on first use */
+const LIB_SOURCES = import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', {
+  query: '?raw',
+  import: 'default',
+});
+const LIB_SOURCE_DIR = '/node_modules/typescript/lib';
+/** React and React DOM declarations, served at their node_modules paths so imports resolve to them */
+const TYPE_PACKAGE_SOURCES = import.meta.glob<string>([
+  '/node_modules/@types/react/{index,global,jsx-runtime,jsx-dev-runtime}.d.ts',
+  '/node_modules/@types/react/package.json',
+  '/node_modules/@types/react-dom/{index,client,server}.d.ts',
+  '/node_modules/@types/react-dom/package.json',
+  '/node_modules/csstype/{index.d.ts,package.json}',
+], {
+  query: '?raw',
+  import: 'default',
+});
+const LIB_DIR = '/__tsx2slides__/lib';
+const ROOT_LIBS = ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'];
+const CODE_FILE = /\.(tsx|ts|mts|cts|jsx|js|mjs|cjs)$/i;
+
+const libCache = new Map<string, string>();
+const typePackageCache = new Map<string, string>();
+
+const joinPath = (base: string, next: string) => {
+  const segments: string[] = [];
+  `${base}/${next}`.split('/').forEach((segment) => {
+    if (!segment || segment === '.') return;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  });
+  return `/${segments.join('/')}`;
+};
+
+const dirname = (filePath: string) => filePath.split('/').slice(0, -1).join('/');
+
+export class TypeCheckError extends ConversionError {
+  constructor(diagnostics: TypeDiagnostic[]) {
+    const errors = diagnostics.filter(({ category }) => category === 'error');
+    const first = errors[0];
+    const location = first?.file ? ` ${first.file.replace(/^\//, '')}:${first.line}:${first.column}` : '';
+    super(
+      'type-check-failed',
+      `Type check failed with ${errors.length} error${errors.length === 1 ? '' : 's'}.${first ? ` First:${location} ${first.message}` : ''}`
+    );
+    this.name = 'TypeCheckError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Loads the root libraries and everything they reference with `/// <reference lib>`
+ */
+const loadLibFiles = async () => {
+  const pending = [...ROOT_LIBS];
+  while (pending.length > 0) {
+    const batch = pending.splice(0).filter((name, index, all) => !libCache.has(name) && all.indexOf(name) === index);
+    await Promise.all(batch.map(async (name) => {
+      const load = LIB_SOURCES[`${LIB_SOURCE_DIR}/${name}`];
+      if (!load) throw new Error(`TypeScript library ${name} is not bundled with the app.`);
+      const text = await load();
+      libCache.set(name, text);
+      for (const match of text.matchAll(/\/\/\/\s*<reference\s+lib="([^"]+)"/g)) {
+        pending.push(`lib.${match[1].toLowerCase()}.d.ts`);
+      }
+    }));
+  }
+};
+
+/**
+ * Loads the bundled React type packages
+ */
+const loadTypePackages = async () => {
+  if (typePackageCache.size > 0) return;
+  const entries = await Promise.all(
+    Object.entries(TYPE_PACKAGE_SOURCES).map(async ([path, load]) => [path, await load()] as const)
+  );
+  entries.forEach(([path, text]) => typePackageCache.set(path, text));
+};
+
+/**
+ * Reads compiler options from the project's root tsconfig/jsconfig. Solution-style
+ * configs (Vite templates) use their first referenced config.
+ */
+const readProjectOptions = (
+  files: Record<string, string>,
+  parseHost: ts.ParseConfigHost
+): { options: ts.CompilerOptions; configPath: string | null } => {
+  const projectFiles = Object.fromEntries(
+    Object.keys(files).map((path) => [path, { path, kind: 'text' as const, content: files[path] }])
+  );
+  let configPath = findRootConfig(projectFiles);
+  if (!configPath) return { options: {}, configPath: null };
+
+  const json = parseJsonc(files[configPath]);
+  const reference = !json.compilerOptions && Array.isArray(json.references)
+    ? json.references
+      .map(({ path }: { path: string }) => joinPath(dirname(configPath!), path))
+      .map((path: string) => (/\.json$/.test(path) ? path : `${path}/tsconfig.json`))
+      .find((path: string) => path in files)
+    : null;
+  if (reference) configPath = reference;
+
+  const parsed = ts.parseJsonConfigFileContent(
+    reference ? parseJsonc(files[reference]) : json,
+    parseHost,
+    dirname(configPath) || '/',
+    undefined,
+    configPath
+  );
+  return { options: parsed.options, configPath };
+};
+
+const toTypeDiagnostic = (diagnostic: ts.Diagnostic): TypeDiagnostic => {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  const category = diagnostic.category === ts.DiagnosticCategory.Error
+    ? 'error'
+    : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'message';
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { code: diagnostic.code, category, message };
+  }
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return {
+    file: diagnostic.file.fileName,
+    line: line + 1,
+    column: character + 1,
+    code: diagnostic.code,
+    category,
+    message,
+    codeFrame: buildCodeFrame(diagnostic.file.text, line + 1, character + 1, diagnostic.length),
+  };
+};
+
+/**
+ * Type-checks the entry and all project sources. Only project files are reported;
+ * vendored packages, the standard library and bundled typings are not.
+ */
+export const checkProjectTypes = async ({
+  content,
+  entryPath,
+  project,
+}: {
+  content: string;
+  entryPath?: string;
+  project?: ProjectContext;
+}): Promise<TypeDiagnostic[]> => {
+  await Promise.all([loadLibFiles(), loadTypePackages()]);
+
+  const entry = entryPath || '/inline.tsx';
+  const files: Record<string, string> = {};
+  Object.values(project?.files || {}).forEach((file) => {
+    if (file.kind === 'text') files[file.path] = file.content;
+  });
+  files[entry] = content;
+  const moduleTypings = buildModuleTypings([...BUNDLED_LIBRARY_NAMES, ...listVendorPackages(Object.keys(files))]);
+
+  const readFile = (fileName: string) => {
+    if (fileName === MODULE_TYPINGS_PATH) return moduleTypings;
+    if (fileName.startsWith(`${LIB_DIR}/`)) return libCache.get(fileName.slice(LIB_DIR.length + 1));
+    // Typings uploaded with the project take precedence over the bundled ones
+    return files[fileName] ?? typePackageCache.get(fileName);
+  };
+  const fileExists = (fileName: string) => readFile(fileName) !== undefined;
+  const directoryExists = (directory: string) => {
+    const prefix = directory.endsWith('/') ? directory : `${directory}/`;
+    return directory === '/'
+      || Object.keys(files).some((path) => path.startsWith(prefix))
+      || Array.from(typePackageCache.keys()).some((path) => path.startsWith(prefix));
+  };
+
+  const { options: projectOptions, configPath } = readProjectOptions(files, {
+    useCaseSensitiveFileNames: true,
+    readDirectory: () => [],
+    fileExists,
+    readFile,
+  });
+  const options: ts.CompilerOptions = {
+    // Without a project config, check as `tsc --init` would
+    ...(configPath ? {} : { strict: true }),
+    ...projectOptions,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    jsxImportSource: undefined,
+    lib: ROOT_LIBS,
+    types: [],
+    typeRoots: [],
+    noEmit: true,
+    allowJs: true,
+    checkJs: false,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    allowSyntheticDefaultImports: true,
+    resolveJsonModule: true,
+    allowImportingTsExtensions: true,
+    isolatedModules: false,
+    composite: false,
+    incremental: false,
+  };
+
+  const rootNames = [
+    MODULE_TYPINGS_PATH,
+    entry,
+    ...Object.keys(files).filter((path) => path !== entry && !isVendoredPath(path) && CODE_FILE.test(path)),
+  ];
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => rootNames,
+    getScriptVersion: () => '1',
+    getScriptSnapshot: (fileName) => {
+      const text = readFile(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: () => `${LIB_DIR}/lib.d.ts`,
+    fileExists,
+    readFile,
+    directoryExists,
+    getDirectories: () => [],
+  };
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+  try {
+    const reported = rootNames.filter((path) => path !== MODULE_TYPINGS_PATH && !/\.d\.[cm]?ts$/i.test(path));
+    return [
+      ...service.getCompilerOptionsDiagnostics(),
+      ...reported.flatMap((path) => [
+        ...service.getSyntacticDiagnostics(path),
+        ...service.getSemanticDiagnostics(path),
+      ]),
+    ].map(toTypeDiagnostic);
+  } finally {
+    service.dispose();
+  }
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+
+const keyframes = `
+@keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
+@keyframes rise-in { from { opacity: 0; transform: translateY(40px); } to { opacity: 1; transform: none; } }
+`;
+
+const AnimatedSlide = () => (
+    <div style={{
+        width: '1280px',
+        height: '720px',
+        padding: '60px',
+        backgroundColor: '#0f172a',
+        color: '#f8fafc',
+        fontFamily: 'Arial, sans-serif',
+    }}>
+        <style>{keyframes}</style>
+        <h1 style={{ fontSize: '60px', margin: 0, animation: 'fade-in 600ms ease-out both' }}>Launch Plan</h1>
+        <div style={{ display: 'flex', gap: '32px', marginTop: '80px' }}>
+            {['Research', 'Build', 'Ship'].map((step, index) => (
+                <div
+                    key={step}
+                    data-order={index + 1}
+                    style={{
+                        flex: 1,
+                        padding: '40px',
+                        borderRadius: '16px',
+                        backgroundColor: '#1e40af',
+                        fontSize: '32px',
+                        animation: 'rise-in 500ms ease-out both',
+                    }}
+                >
+                    {step}
+                </div>
+            ))}
+        </div>
+        <p data-animate="zoom" data-order="4" data-duration="400" style={{ fontSize: '28px', marginTop: '80px' }}>
+            Target: general availability in Q3
+        </p>
+    </div>
+);
+
+export default AnimatedSlide;
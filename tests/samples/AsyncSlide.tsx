@@ -0,0 +1,52 @@
+import React, { Suspense, lazy, useEffect, useState } from 'react';
+
+const loadMetrics = () => new Promise<{ label: string; value: string }[]>((resolve) => {
+    setTimeout(() => resolve([
+        { label: 'Active users', value: '48,210' },
+        { label: 'Conversion', value: '3.4%' },
+        { label: 'Churn', value: '1.1%' },
+    ]), 600);
+});
+
+const Footer = lazy(() => new Promise<{ default: React.ComponentType }>((resolve) => {
+    setTimeout(() => resolve({
+        default: () => <p style={{ color: '#6b7280', fontSize: '20px' }}>Source: analytics warehouse, last 30 days</p>,
+    }), 300);
+}));
+
+const AsyncSlide = () => {
+    const [metrics, setMetrics] = useState<{ label: string; value: string }[] | null>(null);
+
+    useEffect(() => {
+        loadMetrics().then(setMetrics);
+    }, []);
+
+    return (
+        <div data-ready={metrics ? 'true' : 'false'} style={{
+            width: '1280px',
+            height: '720px',
+            padding: '60px',
+            backgroundColor: '#ffffff',
+            fontFamily: 'Arial, sans-serif',
+        }}>
+            <h1 style={{ fontSize: '56px', margin: 0, color: '#111827' }}>Monthly Metrics</h1>
+            {metrics ? (
+                <div style={{ display: 'flex', gap: '32px', marginTop: '60px' }}>
+                    {metrics.map(({ label, value }) => (
+                        <div key={label} style={{ flex: 1, padding: '32px', borderRadius: '16px', backgroundColor: '#eff6ff' }}>
+                            <div style={{ fontSize: '22px', color: '#1e40af' }}>{label}</div>
+                            <div style={{ fontSize: '48px', fontWeight: 'bold', color: '#1e3a8a' }}>{value}</div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p style={{ fontSize: '28px', color: '#9ca3af' }}>Loading…</p>
+            )}
+            <Suspense fallback={<p style={{ color: '#9ca3af' }}>Loading footer…</p>}>
+                <Footer />
+            </Suspense>
+        </div>
+    );
+};
+
+export default AsyncSlide;
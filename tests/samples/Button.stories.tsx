@@ -0,0 +1,52 @@
+import React from 'react';
+
+interface ButtonProps {
+    label: string;
+    variant?: 'primary' | 'secondary';
+    size?: 'small' | 'large';
+}
+
+const Button = ({ label, variant = 'primary', size = 'large' }: ButtonProps) => (
+    <button style={{
+        padding: size === 'large' ? '20px 40px' : '10px 20px',
+        fontSize: size === 'large' ? '28px' : '18px',
+        borderRadius: '12px',
+        border: variant === 'primary' ? 'none' : '2px solid #2563eb',
+        backgroundColor: variant === 'primary' ? '#2563eb' : '#ffffff',
+        color: variant === 'primary' ? '#ffffff' : '#2563eb',
+    }}>
+        {label}
+    </button>
+);
+
+export default {
+    title: 'Design System/Button',
+    component: Button,
+    args: { label: 'Get started' },
+    decorators: [
+        (Story: React.ComponentType) => (
+            <div style={{
+                width: '1280px',
+                height: '720px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                backgroundColor: '#f8fafc',
+                fontFamily: 'Arial, sans-serif',
+            }}>
+                <Story />
+            </div>
+        ),
+    ],
+};
+
+export const Primary = {};
+
+export const Secondary = {
+    args: { variant: 'secondary' },
+};
+
+export const Small = {
+    name: 'Small secondary',
+    args: { variant: 'secondary', size: 'small', label: 'Learn more' },
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+
+interface Metric {
+    label: string;
+    value: string;
+}
+
+interface PropsSlideProps {
+    title: string;
+    subtitle?: string;
+    metrics: Metric[];
+}
+
+// Sample data used when no props.json or editor props are supplied
+export const props: PropsSlideProps = {
+    title: 'Regional Performance',
+    subtitle: 'Template rendered from injected props',
+    metrics: [
+        { label: 'Revenue', value: '$4.2M' },
+        { label: 'Customers', value: '1,280' },
+        { label: 'NPS', value: '62' },
+    ],
+};
+
+const PropsSlide = ({ title, subtitle, metrics = [] }: PropsSlideProps) => (
+    <div style={{
+        width: '1280px',
+        height: '720px',
+        padding: '60px',
+        backgroundColor: '#0f172a',
+        color: '#f8fafc',
+        fontFamily: 'Arial, sans-serif',
+    }}>
+        <h1 style={{ fontSize: '56px', margin: 0 }}>{title}</h1>
+        {subtitle && <p style={{ fontSize: '24px', color: '#94a3b8' }}>{subtitle}</p>}
+        <div style={{ display: 'flex', gap: '32px', marginTop: '80px' }}>
+            {metrics.map((metric) => (
+                <div key={metric.label} style={{ flex: 1, padding: '32px', borderRadius: '16px', backgroundColor: '#1e293b' }}>
+                    <div style={{ fontSize: '20px', color: '#94a3b8' }}>{metric.label}</div>
+                    <div style={{ fontSize: '48px', fontWeight: 'bold', marginTop: '12px' }}>{metric.value}</div>
+                </div>
+            ))}
+        </div>
+    </div>
+);
+
+export default PropsSlide;
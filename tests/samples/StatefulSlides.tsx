@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+
+const deck = [
+    { title: 'Quarterly Review', body: 'Highlights from the last three months.', color: '#2563eb' },
+    { title: 'Revenue', body: 'Revenue grew 18% quarter over quarter.', color: '#16a34a' },
+    { title: 'Next Steps', body: 'Expand the pilot to two more regions.', color: '#9333ea' },
+];
+
+const StatefulSlides = () => {
+    const [current, setCurrent] = useState(0);
+    const slide = deck[current];
+
+    return (
+        <div style={{
+            width: '1280px',
+            height: '720px',
+            padding: '60px',
+            backgroundColor: '#ffffff',
+            fontFamily: 'Arial, sans-serif',
+            display: 'flex',
+            flexDirection: 'column',
+        }}>
+            <h1 style={{ color: slide.color, fontSize: '56px', margin: 0 }}>{slide.title}</h1>
+            <p style={{ fontSize: '28px', color: '#374151', flex: 1 }}>{slide.body}</p>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <span style={{ color: '#6b7280' }}>Slide {current + 1} of {deck.length}</span>
+                <button
+                    onClick={() => setCurrent(Math.min(deck.length - 1, current + 1))}
+                    disabled={current === deck.length - 1}
+                    style={{ padding: '12px 24px', fontSize: '18px' }}
+                >
+                    Next
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default StatefulSlides;
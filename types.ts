@@ -33,6 +33,21 @@ export interface LayoutElement {
   // Image-specific fields
   imageData?: string; // base64 data URL for embedded images
   imageFormat?: 'png' | 'jpeg' | 'gif' | 'webp';
+  // Entrance effect of the animated element this element was drawn from
+  animation?: EntranceAnimation;
+}
+
+/** Entrance effect read from a CSS animation or `data-animate`, exported to PPTX */
+export interface EntranceAnimation {
+  effect: 'fade' | 'slide' | 'zoom';
+  /** Side a sliding element enters from */
+  direction?: 'left' | 'right' | 'top' | 'bottom';
+  /** Sequence step; steps play one after another, effects in a step play together */
+  order: number;
+  delayMs: number;
+  durationMs: number;
+  /** Animated DOM element the effect belongs to; every layout element drawn from it shares the group */
+  group: number;
 }
 
 export interface PageLayout {
@@ -40,6 +55,7 @@ export interface PageLayout {
   bgColor: string;
   elements: LayoutElement[];
   notes?: string;
+  snapshot?: RenderSnapshot;
 }
 
 export interface DocumentLayout {
@@ -48,10 +64,44 @@ export interface DocumentLayout {
   summary: string;
   snapshot?: RenderSnapshot;
   diagnostics?: LayoutDiagnostics;
+  /** Props the root component was rendered with, so the export can be reproduced */
+  props?: ComponentProps;
+  /** Stage the layout was captured on; element percentages are relative to it */
+  stage?: StageSize;
+  /** Clock and seed of a deterministic render; rendering again with them reproduces the layout */
+  deterministic?: DeterministicOptions;
+}
+
+export interface ComponentProps {
+  values: Record<string, any>;
+  sources: ('defaultProps' | 'export' | 'file' | 'editor')[];
+  filePath?: string;
 }
 
 export type ExportFormat = 'PDF' | 'PPTX';
 
+/**
+ * Point CSS and Web Animations are captured at: as rendered, fast-forwarded to where they
+ * come to rest, or at a time in milliseconds from their start
+ */
+export type AnimationCapture = 'first-frame' | 'end' | { timeMs: number };
+
+/** Frozen clock and random seed for reproducible renders */
+export interface DeterministicOptions {
+  /** Instant `Date` is frozen at, in epoch milliseconds */
+  time: number;
+  /** Seed for `Math.random` */
+  seed: number;
+  /** Virtual time timers are advanced by before each capture, in milliseconds */
+  advanceMs: number;
+}
+
+/** Size of the render stage in CSS pixels; also the emulated viewport */
+export interface StageSize {
+  width: number;
+  height: number;
+}
+
 /**
  * Extended types for enhanced layout extraction
  */
@@ -101,9 +151,13 @@ export interface ExportOptions {
   includeImages?: boolean;
   embedFonts?: boolean;
   pageSize?: 'A4' | 'letter' | '16:9' | '4:3';
+  /** How the stage is placed on a page with a different aspect ratio */
+  fit?: FitMode;
   rasterize?: boolean;
 }
 
+export type FitMode = 'stretch' | 'letterbox' | 'crop';
+
 /**
  * UI progress tracking types
  */
@@ -115,11 +169,39 @@ export interface ProgressState {
   message: string;
 }
 
+export type ErrorCode =
+  | 'transpile-error'
+  | 'module-not-found'
+  | 'no-component-export'
+  | 'render-exception'
+  | 'type-check-failed'
+  | 'timeout'
+  | 'image-load-failed'
+  | 'export-failed'
+  | 'invalid-input'
+  | 'render-failed';
+
 export interface ErrorInfo {
-  code: string;
+  code: ErrorCode;
   message: string;
   suggestion: string;
   canRetry: boolean;
+  /** Type-check diagnostics behind the error, each with its code frame */
+  diagnostics?: TypeDiagnostic[];
+  /** Original source location of a runtime error */
+  location?: SourceLocation;
+  /** React component stack of a render error, mapped to original sources */
+  componentStack?: string;
+  /** Import specifier the error concerns */
+  moduleName?: string;
+}
+
+export interface SourceLocation {
+  file: string;
+  /** 1-based line and column */
+  line: number;
+  column: number;
+  codeFrame?: string;
 }
 
 export interface ProjectFile {
@@ -136,11 +218,92 @@ export interface ProjectContext {
   hasCss?: boolean;
 }
 
+export interface PackageDiagnostic {
+  name: string;
+  status: 'resolved' | 'not-found' | 'unresolved-entry' | 'failed';
+  source?: 'node_modules' | 'vendor';
+  path?: string;
+  version?: string;
+  message?: string;
+}
+
 export interface LayoutDiagnostics {
   missingImports: string[];
   usedClassName: boolean;
   hasCss: boolean;
   warnings: string[];
+  tailwind?: {
+    utilities: number;
+    configPath?: string;
+  };
+  slideStates?: {
+    strategy: 'slides-export' | 'controller' | 'next-control' | 'none';
+    count: number;
+  };
+  /** Providers and decorators wrapped around the rendered component */
+  decorators?: {
+    count: number;
+    configPath?: string;
+  };
+  /** Capture script steps replayed and the pages captured, the initial state included */
+  captureScript?: {
+    steps: number;
+    captured: number;
+    failed: string[];
+  };
+  /** Bare-specifier imports resolved (or not) against uploaded packages */
+  packages?: PackageDiagnostic[];
+  /** Component exports found in the entry module and the ones rendered */
+  exports?: {
+    available: string[];
+    rendered: string[];
+  };
+  dataset?: {
+    rows: number;
+    rendered: number;
+    errors: DatasetRowError[];
+  };
+  /** Diagnostics from strict type-check mode */
+  types?: TypeDiagnostic[];
+  /** Animations fast-forwarded before capture, summed over all pages */
+  animations?: {
+    settled: number;
+  };
+  /** Network requests answered from project fixtures; unmatched ones got a 404 */
+  fixtures?: {
+    served: number;
+    unmatched: string[];
+  };
+  /** How long capture waited for Suspense, effects and the component's ready signal */
+  readiness?: {
+    signal: 'markReady' | 'data-ready' | 'none';
+    waitedMs: number;
+    /** Captures taken after the readiness timeout ran out */
+    timedOut: number;
+  };
+}
+
+export interface TypeDiagnostic {
+  /** Project path; absent for configuration-level diagnostics */
+  file?: string;
+  /** 1-based line and column */
+  line?: number;
+  column?: number;
+  /** TypeScript diagnostic code, e.g. 2322 */
+  code: number;
+  category: 'error' | 'warning' | 'message';
+  message: string;
+  codeFrame?: string;
+}
+
+export interface DatasetRowError {
+  /** 1-based row number in the dataset */
+  row: number;
+  message: string;
+  /** Original source location of the error */
+  location?: SourceLocation;
+  /** React component stack of the error, mapped to original sources */
+  componentStack?: string;
 }
 
 export interface RenderSnapshot {
@@ -6,8 +6,21 @@ export default defineConfig(() => ({
   server: {
     port: 3000,
     host: '0.0.0.0',
+    // The render sandbox has an opaque origin, so its module scripts are cross-origin requests
+    cors: { origin: 'null' },
+  },
+  preview: {
+    cors: { origin: 'null' },
   },
   plugins: [react()],
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        sandbox: path.resolve(__dirname, 'sandbox.html'),
+      },
+    },
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),